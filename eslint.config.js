@@ -34,6 +34,7 @@ export default [
     },
   },
   {
-    ignores: ['dist/**', 'node_modules/**', '**/*.js', 'test/**'],
+    // Templates contain {{...}} placeholders and are only valid TypeScript once rendered
+    ignores: ['dist/**', 'node_modules/**', '**/*.js', 'test/**', 'src/templates/**'],
   },
 ];
@@ -16,6 +16,8 @@ const config = {
   },
   injectGlobals: true,
   testMatch: ["**/*.test.ts"],
+  // Test files inside templates (and their copies in dist/) belong to generated projects
+  testPathIgnorePatterns: ["/node_modules/", "/dist/", "/src/templates/"],
   collectCoverageFrom: ["src/**/*.ts", "!src/**/*.test.ts", "!src/templates/**", "!src/index.ts"],
   coverageDirectory: "coverage",
   verbose: true,
@@ -1,20 +1,47 @@
 import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+import path from "path";
 import type { UserChoices } from "./prompts.js";
 
 // Mock fs-extra before importing the module
 const mockExistsSync = jest.fn<(path: string) => boolean>();
 const mockEnsureDir = jest.fn<() => Promise<void>>();
-const mockCopy = jest.fn<() => Promise<void>>();
 const mockReadFile = jest.fn<() => Promise<string>>();
 const mockWriteFile = jest.fn<() => Promise<void>>();
+const mockMkdtemp = jest.fn<(prefix: string) => Promise<string>>();
+const mockMove = jest.fn<(source: string, destination: string, options?: { overwrite: boolean }) => Promise<void>>();
+const mockStatSync = jest.fn<(path: string) => { isDirectory: () => boolean }>();
+const mockRemoveSync = jest.fn<(path: string) => void>();
+const mockChmod = jest.fn<(path: string, mode: number) => Promise<void>>();
+const mockReaddir = jest.fn<(directory: string) => Promise<{ name: string; isDirectory: () => boolean }[]>>();
+
+// Template files returned by the mocked readdir, keyed by directory name, and the generated
+// project moved into an existing target directory
+const templateTree: Record<string, string[]> = {
+  "base": [".env.example", "gitignore", "package.template.json", "src"],
+  "src": ["index.ts"],
+  ".test-project-staging": ["package.json", "src"],
+};
+mockReaddir.mockImplementation((directory: string) =>
+  Promise.resolve(
+    (templateTree[path.basename(directory)] ?? []).map((name) => ({
+      name,
+      isDirectory: () => name in templateTree,
+    }))
+  )
+);
 
 jest.unstable_mockModule("fs-extra", () => {
   const mockModule = {
     existsSync: mockExistsSync,
     ensureDir: mockEnsureDir,
-    copy: mockCopy,
     readFile: mockReadFile,
     writeFile: mockWriteFile,
+    mkdtemp: mockMkdtemp,
+    move: mockMove,
+    statSync: mockStatSync,
+    removeSync: mockRemoveSync,
+    chmod: mockChmod,
+    readdir: mockReaddir,
   };
   return {
     default: mockModule,
@@ -27,19 +54,19 @@ jest.unstable_mockModule("execa", () => ({
   execa: mockExeca,
 }));
 
-const mockSpinner = {
-  start: jest.fn(),
-  stop: jest.fn(),
-};
-const mockCancel = jest.fn();
-
-jest.unstable_mockModule("@clack/prompts", () => ({
-  spinner: jest.fn(() => mockSpinner),
-  cancel: mockCancel,
+const mockVerifyProject = jest.fn<(projectPath: string, packageManager: string) => Promise<void>>();
+jest.unstable_mockModule("./verify.js", () => ({
+  getVerifyCommands: (packageManager: string) => [
+    [packageManager, "run", "type-check"],
+    [packageManager, "run", "build"],
+  ],
+  verifyProject: mockVerifyProject,
 }));
 
 // Import after mocking
-const { createProject, getTsStrictnessDescription } = await import("./actions.js");
+const { createProject, getTsStrictnessDescription, planProject } = await import("./actions.js");
+const { DirectoryConflictError, GenerationCancelledError, GenerationError, VerificationError, WizardError } =
+  await import("./errors.js");
 
 describe("getTsStrictnessDescription", () => {
   it("should return correct description for relaxed level", () => {
@@ -62,6 +89,16 @@ describe("createProject", () => {
   const mockChoices: UserChoices = {
     projectName: "test-project",
     tsStrictness: "moderate",
+    moduleFormat: "esm",
+    nodeVersion: "22",
+    packageManager: "npm",
+    layout: "minimal",
+    testRunner: "vitest",
+    linter: "eslint-prettier",
+    security: [],
+    logging: true,
+    openapi: true,
+    docker: false,
     initGit: false,
   };
 
@@ -105,22 +142,91 @@ describe("createProject", () => {
     jest.clearAllMocks();
     mockExeca.mockResolvedValue({ stdout: "", stderr: "" });
     mockEnsureDir.mockResolvedValue(undefined);
-    mockCopy.mockResolvedValue(undefined);
     mockReadFile.mockResolvedValue('{"name": "{{PROJECT_NAME}}"}');
     mockWriteFile.mockResolvedValue(undefined);
+    mockMkdtemp.mockImplementation((prefix: string) => Promise.resolve(`${prefix}staging`));
+    mockMove.mockResolvedValue(undefined);
+    mockChmod.mockResolvedValue(undefined);
+    mockStatSync.mockReturnValue({ isDirectory: () => true });
+    mockVerifyProject.mockResolvedValue(undefined);
   });
 
-  it("should throw error if project directory already exists", async () => {
+  it("should throw a DirectoryConflictError if the project directory already contains its files", async () => {
     setupExistsSyncMock({ projectExists: true, packageLockExists: false });
+    const projectPath = path.resolve(process.cwd(), "test-project");
+    const files = [".env.example", ".gitignore", "package.json", "src/index.ts", "tsconfig.json"];
 
-    // Mock process.exit to prevent actual exit
-    const mockExit = jest.spyOn(process, "exit").mockImplementation(() => {
-      throw new Error("process.exit called");
+    const promise = createProject(mockChoices);
+
+    await expect(promise).rejects.toThrow(DirectoryConflictError);
+    await expect(promise).rejects.toMatchObject({
+      message: `Directory ${projectPath} already contains files of the project: ${files.join(", ")}`,
+      projectPath,
+      conflicts: files,
     });
+    expect(mockMkdtemp).not.toHaveBeenCalled();
+  });
 
-    await expect(createProject(mockChoices)).rejects.toThrow("process.exit called");
+  it("should throw a GenerationError if the target exists and is not a directory", async () => {
+    setupExistsSyncMock({ projectExists: true, packageLockExists: false });
+    mockStatSync.mockReturnValue({ isDirectory: () => false });
 
-    mockExit.mockRestore();
+    await expect(createProject(mockChoices, { onConflict: "overwrite" })).rejects.toThrow(
+      `${path.resolve(process.cwd(), "test-project")} already exists and is not a directory`
+    );
+    expect(mockMkdtemp).not.toHaveBeenCalled();
+  });
+
+  describe("with an existing target directory", () => {
+    const projectPath = path.resolve(process.cwd(), "test-project");
+    const stagingPath = path.resolve(process.cwd(), ".test-project-staging");
+
+    beforeEach(() => {
+      // The directory holds a package.json, e.g. from a cloned repository
+      const existingPaths = [projectPath, path.join(projectPath, "package.json")];
+      mockExistsSync.mockImplementation(
+        (filePath: string) => existingPaths.includes(filePath) || filePath.includes("package-lock")
+      );
+    });
+
+    it("should keep the existing files when merging", async () => {
+      const onConflict = jest.fn(() => Promise.resolve("merge" as const));
+
+      const result = await createProject(mockChoices, { onConflict });
+
+      expect(onConflict).toHaveBeenCalledWith(["package.json"]);
+      expect(mockMove).toHaveBeenCalledWith(path.join(stagingPath, "src"), path.join(projectPath, "src"));
+      expect(mockMove).toHaveBeenCalledTimes(1);
+      expect(mockRemoveSync).toHaveBeenCalledWith(stagingPath);
+      expect(result.conflicts).toEqual(["package.json"]);
+    });
+
+    it("should replace the existing files when overwriting", async () => {
+      await createProject(mockChoices, { onConflict: "overwrite" });
+
+      expect(mockMove).toHaveBeenCalledWith(path.join(stagingPath, "src"), path.join(projectPath, "src"));
+      expect(mockMove).toHaveBeenCalledWith(
+        path.join(stagingPath, "package.json"),
+        path.join(projectPath, "package.json"),
+        { overwrite: true }
+      );
+    });
+
+    it("should not ask when none of the project files exist yet", async () => {
+      mockExistsSync.mockImplementation(
+        (filePath: string) => filePath === projectPath || filePath.includes("package-lock")
+      );
+      const onConflict = jest.fn(() => Promise.resolve("abort" as const));
+
+      const result = await createProject(mockChoices, { onConflict });
+
+      expect(onConflict).not.toHaveBeenCalled();
+      expect(result.conflicts).toEqual([]);
+      expect(mockMove).toHaveBeenCalledWith(
+        path.join(stagingPath, "package.json"),
+        path.join(projectPath, "package.json")
+      );
+    });
   });
 
   it("should create project structure with correct files", async () => {
@@ -131,11 +237,8 @@ describe("createProject", () => {
     // Verify ensureDir was called for src directory
     expect(mockEnsureDir).toHaveBeenCalled();
 
-    // Verify copy was called for index.ts, gitignore, .env.example, and tsconfig
-    expect(mockCopy).toHaveBeenCalledTimes(4);
-
-    // Verify package.json was written with project name replaced
-    expect(mockWriteFile).toHaveBeenCalled();
+    // Verify index.ts, .gitignore, .env.example, package.json and tsconfig.json were written
+    expect(mockWriteFile).toHaveBeenCalledTimes(5);
   });
 
   it("should initialize git when initGit is true", async () => {
@@ -188,15 +291,14 @@ describe("createProject", () => {
     const strictChoices: UserChoices = {
       ...mockChoices,
       tsStrictness: "strict",
+      moduleFormat: "esm",
+      nodeVersion: "22",
     };
 
     await createProject(strictChoices);
 
-    // Verify copy was called with strict.json tsconfig
-    expect(mockCopy).toHaveBeenCalledWith(
-      expect.stringContaining("strict.json"),
-      expect.stringContaining("tsconfig.json")
-    );
+    // Verify tsconfig.json was rendered from strict.json
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining("strict.json"), "utf-8");
   });
 
   it("should throw error when package-lock.json is not generated", async () => {
@@ -207,21 +309,49 @@ describe("createProject", () => {
     );
   });
 
+  it("should install with pnpm and check its lock file when pnpm is chosen", async () => {
+    mockExistsSync.mockImplementation((filePath: string) => filePath.endsWith("pnpm-lock.yaml"));
+
+    await createProject({ ...mockChoices, packageManager: "pnpm" });
+
+    expect(mockExeca).toHaveBeenCalledWith("pnpm", ["install"], expect.objectContaining({ stdio: "pipe" }));
+    expect(mockExeca).not.toHaveBeenCalledWith("npm", expect.anything(), expect.anything());
+  });
+
+  it("should throw error when the chosen package manager does not generate its lock file", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+
+    await expect(createProject({ ...mockChoices, packageManager: "yarn" })).rejects.toThrow(
+      "yarn.lock was not generated"
+    );
+  });
+
+  it("should write the package manager's clean install command into package.json", async () => {
+    mockReadFile.mockResolvedValue('{"scripts": {"install:ci": "{{INSTALL_CI_COMMAND}}"}}');
+    mockExistsSync.mockImplementation((filePath: string) => filePath.endsWith("bun.lock"));
+
+    await createProject({ ...mockChoices, packageManager: "bun" });
+
+    expect(mockWriteFile).toHaveBeenCalledWith(
+      expect.stringContaining("package.json"),
+      '{"scripts": {"install:ci": "bun install --frozen-lockfile"}}'
+    );
+  });
+
   it("should use relaxed tsconfig when strictness is relaxed", async () => {
     setupExistsSyncMock({ projectExists: false, packageLockExists: true });
 
     const relaxedChoices: UserChoices = {
       ...mockChoices,
       tsStrictness: "relaxed",
+      moduleFormat: "esm",
+      nodeVersion: "22",
     };
 
     await createProject(relaxedChoices);
 
-    // Verify copy was called with relaxed.json tsconfig
-    expect(mockCopy).toHaveBeenCalledWith(
-      expect.stringContaining("relaxed.json"),
-      expect.stringContaining("tsconfig.json")
-    );
+    // Verify tsconfig.json was rendered from relaxed.json
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining("relaxed.json"), "utf-8");
   });
 
   it("should use moderate tsconfig when strictness is moderate", async () => {
@@ -229,11 +359,8 @@ describe("createProject", () => {
 
     await createProject(mockChoices);
 
-    // Verify copy was called with moderate.json tsconfig
-    expect(mockCopy).toHaveBeenCalledWith(
-      expect.stringContaining("moderate.json"),
-      expect.stringContaining("tsconfig.json")
-    );
+    // Verify tsconfig.json was rendered from moderate.json
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining("moderate.json"), "utf-8");
   });
 
   it("should use development templates path when production path does not exist", async () => {
@@ -243,7 +370,7 @@ describe("createProject", () => {
 
     // Verify project was still created (using development path)
     expect(mockEnsureDir).toHaveBeenCalled();
-    expect(mockCopy).toHaveBeenCalledTimes(4);
+    expect(mockWriteFile).toHaveBeenCalledTimes(5);
   });
 
   it("should use production templates path when it exists", async () => {
@@ -253,17 +380,23 @@ describe("createProject", () => {
 
     // Verify project was created using production path
     expect(mockEnsureDir).toHaveBeenCalled();
-    expect(mockCopy).toHaveBeenCalledTimes(4);
+    expect(mockWriteFile).toHaveBeenCalledTimes(5);
   });
 
-  it("should throw error and stop spinner when copyProjectFiles fails", async () => {
+  it("should throw a GenerationError and report the failed step when writing files fails", async () => {
     setupExistsSyncMock({ projectExists: false, packageLockExists: true });
     mockEnsureDir.mockRejectedValue(new Error("File system error"));
+    const onProgress = jest.fn();
 
-    await expect(createProject(mockChoices)).rejects.toThrow("File system error");
+    const promise = createProject(mockChoices, { onProgress });
 
-    // Verify spinner was stopped with error message
-    expect(mockSpinner.stop).toHaveBeenCalledWith("Error creating structure");
+    await expect(promise).rejects.toThrow(GenerationError);
+    await expect(promise).rejects.toMatchObject({
+      message: "Could not create the project files: File system error",
+      step: "files",
+      keptPath: undefined,
+    });
+    expect(onProgress.mock.calls).toEqual([[{ step: "files", status: "start" }], [{ step: "files", status: "failed" }]]);
   });
 
   it("should handle git initialization failure gracefully without throwing", async () => {
@@ -282,10 +415,324 @@ describe("createProject", () => {
       return Promise.resolve({ stdout: "", stderr: "" });
     });
 
+    const onProgress = jest.fn();
+
     // Should not throw - git failure is handled gracefully
-    await createProject(choicesWithGit);
+    const result = await createProject(choicesWithGit, { onProgress });
+
+    expect(result.git).toBe("failed");
+    expect(onProgress).toHaveBeenLastCalledWith({ step: "git", status: "failed" });
+    expect(mockMove).toHaveBeenCalled();
+  });
+
+  it("should generate the project in a staging directory and move it into place", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+
+    await createProject(mockChoices);
+
+    const stagingPath = path.resolve(process.cwd(), ".test-project-staging");
+    expect(mockMkdtemp).toHaveBeenCalledWith(path.resolve(process.cwd(), ".test-project-"));
+    expect(mockExeca).toHaveBeenCalledWith("npm", ["ci"], expect.objectContaining({ cwd: stagingPath }));
+    expect(mockMove).toHaveBeenCalledWith(stagingPath, path.resolve(process.cwd(), "test-project"));
+    expect(mockRemoveSync).not.toHaveBeenCalled();
+  });
+
+  it("should give the project directory the default mode of new directories before moving it into place", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const stagingPath = path.resolve(process.cwd(), ".test-project-staging");
+
+    await createProject(mockChoices);
+
+    expect(mockChmod).toHaveBeenCalledWith(stagingPath, 0o777 & ~process.umask());
+    expect(mockChmod.mock.invocationCallOrder[0]).toBeLessThan(mockMove.mock.invocationCallOrder[0] ?? 0);
+  });
+
+  it("should remove the staging directory when installing dependencies fails", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    mockExeca.mockRejectedValue(new Error("npm install failed"));
+
+    await expect(createProject(mockChoices)).rejects.toMatchObject({
+      message: "Could not install dependencies: npm install failed",
+      step: "install",
+    });
+
+    expect(mockRemoveSync).toHaveBeenCalledWith(path.resolve(process.cwd(), ".test-project-staging"));
+    expect(mockMove).not.toHaveBeenCalled();
+  });
+
+  it("should keep the staging directory on failure when keepOnFailure is set", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    mockEnsureDir.mockRejectedValue(new Error("File system error"));
+
+    await expect(createProject(mockChoices, { keepOnFailure: true })).rejects.toMatchObject({
+      step: "files",
+      keptPath: path.resolve(process.cwd(), ".test-project-staging"),
+    });
+
+    expect(mockRemoveSync).not.toHaveBeenCalled();
+  });
+
+  it("should remove the staging directory and throw a GenerationCancelledError when the signal is aborted", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const controller = new AbortController();
+    mockExeca.mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(new Error("Command was canceled"));
+    });
+
+    await expect(createProject(mockChoices, { signal: controller.signal })).rejects.toThrow(GenerationCancelledError);
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "npm",
+      expect.any(Array),
+      expect.objectContaining({ cancelSignal: controller.signal })
+    );
+    expect(mockRemoveSync).toHaveBeenCalledWith(path.resolve(process.cwd(), ".test-project-staging"));
+    expect(mockMove).not.toHaveBeenCalled();
+  });
+
+  it("should not exit the process or listen for signals itself", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const mockExit = jest.spyOn(process, "exit");
+    const listenerCount = process.listenerCount("SIGINT");
+    mockExeca.mockImplementation(() => {
+      expect(process.listenerCount("SIGINT")).toBe(listenerCount);
+      return Promise.resolve({ stdout: "", stderr: "" });
+    });
+
+    await createProject(mockChoices);
+
+    expect(mockExit).not.toHaveBeenCalled();
+    mockExit.mockRestore();
+  });
+
+  it("should report each step and return what was done", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const onProgress = jest.fn();
+
+    const result = await createProject({ ...mockChoices, initGit: true }, { onProgress });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { step: "files", status: "start" },
+      { step: "files", status: "done" },
+      { step: "install", status: "start" },
+      { step: "install", status: "done" },
+      { step: "git", status: "start" },
+      { step: "git", status: "done" },
+    ]);
+    expect(result).toMatchObject({
+      projectPath: path.resolve(process.cwd(), "test-project"),
+      install: "installed",
+      git: "initialized",
+    });
+    expect(result.files.map((file) => file.relativePath)).toContain("package.json");
+  });
+
+  it("should generate in the given directory and skip installing when asked", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: false });
+    const cwd = path.resolve("/srv/services");
+
+    const result = await createProject(mockChoices, { cwd, install: false });
+
+    expect(mockMkdtemp).toHaveBeenCalledWith(path.join(cwd, ".test-project-"));
+    expect(mockMove).toHaveBeenCalledWith(path.join(cwd, ".test-project-staging"), path.join(cwd, "test-project"));
+    expect(mockExeca).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ projectPath: path.join(cwd, "test-project"), install: "skipped", git: "skipped" });
+  });
+
+  it("should verify the project after installing it when asked", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const onProgress = jest.fn();
+
+    const result = await createProject(mockChoices, { verify: true, onProgress });
+
+    expect(mockVerifyProject).toHaveBeenCalledWith(
+      path.resolve(process.cwd(), ".test-project-staging"),
+      "npm",
+      undefined
+    );
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { step: "files", status: "start" },
+      { step: "files", status: "done" },
+      { step: "install", status: "start" },
+      { step: "install", status: "done" },
+      { step: "verify", status: "start" },
+      { step: "verify", status: "done" },
+    ]);
+    expect(result).toMatchObject({ install: "installed", verify: "passed" });
+  });
+
+  it("should not verify the project unless asked", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+
+    const result = await createProject(mockChoices);
+
+    expect(mockVerifyProject).not.toHaveBeenCalled();
+    expect(result.verify).toBe("skipped");
+  });
+
+  it("should throw a GenerationError with the verification output when verifying fails", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: true });
+    const failure = new VerificationError("npm run build failed", "src/app.ts(3,1): error TS2304");
+    mockVerifyProject.mockRejectedValue(failure);
+
+    await expect(createProject(mockChoices, { verify: true })).rejects.toMatchObject({
+      message: "Could not verify the project: npm run build failed",
+      step: "verify",
+      cause: failure,
+    });
+
+    expect(mockRemoveSync).toHaveBeenCalledWith(path.resolve(process.cwd(), ".test-project-staging"));
+    expect(mockMove).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to verify a project whose dependencies are not installed", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: false });
+
+    await expect(createProject(mockChoices, { verify: true, install: false })).rejects.toThrow(WizardError);
+
+    expect(mockMkdtemp).not.toHaveBeenCalled();
+  });
+
+  it("should return the project plan without touching the disk in dry-run mode", async () => {
+    setupExistsSyncMock({ projectExists: false, packageLockExists: false });
+
+    const result = await createProject({ ...mockChoices, initGit: true }, { dryRun: true });
+
+    expect(result.commands).toContainEqual(["git", "init"]);
+    expect(result).toMatchObject({ install: "skipped", git: "skipped" });
+    expect(mockMkdtemp).not.toHaveBeenCalled();
+    expect(mockEnsureDir).not.toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+});
+
+describe("planProject", () => {
+  const mockChoices: UserChoices = {
+    projectName: "test-project",
+    tsStrictness: "moderate",
+    moduleFormat: "esm",
+    nodeVersion: "22",
+    packageManager: "npm",
+    layout: "minimal",
+    testRunner: "vitest",
+    linter: "eslint-prettier",
+    security: [],
+    logging: true,
+    openapi: true,
+    docker: false,
+    initGit: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExistsSync.mockReturnValue(false);
+    mockReadFile.mockResolvedValue('{"name": "{{PROJECT_NAME}}"}');
+  });
+
+  it("should list the rendered project files", async () => {
+    const plan = await planProject(mockChoices);
+
+    expect(plan.projectPath).toBe(path.resolve(process.cwd(), "test-project"));
+    expect(plan.files.map((file) => file.relativePath)).toEqual([
+      ".env.example",
+      ".gitignore",
+      "package.json",
+      "src/index.ts",
+      "tsconfig.json",
+    ]);
+    expect(plan.files.find((file) => file.relativePath === "package.json")?.content).toBe(
+      '{"name": "test-project"}'
+    );
+  });
+
+  it("should resolve the target directory from the choices", async () => {
+    const cwd = path.resolve("/srv/orders-api");
+
+    expect((await planProject({ ...mockChoices, projectName: "@acme/orders-api" })).projectPath).toBe(
+      path.resolve(process.cwd(), "orders-api")
+    );
+    expect((await planProject({ ...mockChoices, directory: "." }, undefined, { cwd })).projectPath).toBe(cwd);
+    expect((await planProject({ ...mockChoices, directory: "apps/api" }, undefined, { cwd })).projectPath).toBe(
+      path.join(cwd, "apps/api")
+    );
+  });
+
+  it("should not initialize Git in a directory that already is a repository", async () => {
+    const projectPath = path.resolve(process.cwd(), "test-project");
+    mockExistsSync.mockImplementation((filePath: string) =>
+      [projectPath, path.join(projectPath, ".git")].includes(filePath)
+    );
+
+    const plan = await planProject({ ...mockChoices, initGit: true });
+
+    expect(plan.commands).not.toContainEqual(["git", "init"]);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it("should list install commands and git commands only when initGit is true", async () => {
+    const planWithoutGit = await planProject(mockChoices);
+    const planWithGit = await planProject({ ...mockChoices, packageManager: "pnpm", initGit: true });
+
+    expect(planWithoutGit.commands).toEqual([
+      ["npm", "install", "--package-lock-only"],
+      ["npm", "ci"],
+    ]);
+    expect(planWithGit.commands).toEqual([
+      ["pnpm", "install"],
+      ["git", "init"],
+      ["git", "add", "."],
+      ["git", "commit", "-m", "Initial commit from express-ts-wizard"],
+    ]);
+  });
+
+  it("should list the verify commands between install and git commands when verifying", async () => {
+    const plan = await planProject({ ...mockChoices, packageManager: "pnpm", initGit: true }, undefined, {
+      verify: true,
+    });
+
+    expect(plan.commands).toEqual([
+      ["pnpm", "install"],
+      ["pnpm", "run", "type-check"],
+      ["pnpm", "run", "build"],
+      ["git", "init"],
+      ["git", "add", "."],
+      ["git", "commit", "-m", "Initial commit from express-ts-wizard"],
+    ]);
+  });
+
+  it("should render template variables from the project metadata", async () => {
+    mockReadFile.mockResolvedValue('{"description": "{{DESCRIPTION}}", "license": "{{LICENSE}}", "port": {{PORT}}}');
+
+    const plan = await planProject({ ...mockChoices, description: 'My "orders" API', port: 8080 });
+
+    const packageJson = plan.files.find((file) => file.relativePath === "package.json");
+    expect(JSON.parse(packageJson?.content ?? "")).toEqual({
+      description: 'My "orders" API',
+      license: "MIT",
+      port: 8080,
+    });
+  });
+
+  it("should only include files whose manifest condition holds", async () => {
+    mockExistsSync.mockImplementation((filePath: string) => filePath.endsWith("template.json"));
+    mockReadFile.mockImplementation(((filePath: string) =>
+      Promise.resolve(
+        filePath.endsWith("template.json") ? '{"files": {".env.example": "PACKAGE_MANAGER_PNPM"}}' : "content"
+      )) as () => Promise<string>);
+
+    const npmPlan = await planProject(mockChoices);
+    const pnpmPlan = await planProject({ ...mockChoices, packageManager: "pnpm" });
+
+    expect(npmPlan.files.map((file) => file.relativePath)).not.toContain(".env.example");
+    expect(pnpmPlan.files.map((file) => file.relativePath)).toContain(".env.example");
+  });
+
+  it("should not write anything to disk", async () => {
+    await planProject(mockChoices);
 
-    // Verify spinner was stopped with error message
-    expect(mockSpinner.stop).toHaveBeenCalledWith("Error initializing Git (may not be installed)");
+    expect(mockWriteFile).not.toHaveBeenCalled();
+    expect(mockExeca).not.toHaveBeenCalled();
   });
 });
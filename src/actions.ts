@@ -1,9 +1,44 @@
-import * as p from "@clack/prompts";
 import fs from "fs-extra";
 import path from "path";
 import { execa } from "execa";
 import { fileURLToPath } from "url";
-import type { TsStrictness, UserChoices } from "./prompts.js";
+import {
+  DEFAULT_METADATA,
+  LINTERS,
+  MODULE_FORMATS,
+  PROJECT_LAYOUTS,
+  SECURITY_FEATURES,
+  TEST_RUNNERS,
+  TS_STRICTNESS_LEVELS,
+  getProjectDirectoryName,
+  type ConflictStrategy,
+  type TsStrictness,
+  type UserChoices,
+} from "./prompts.js";
+import {
+  DirectoryConflictError,
+  GenerationCancelledError,
+  GenerationError,
+  WizardError,
+  type ProjectStep,
+} from "./errors.js";
+import { applyFeatures, getFeatureContext, type Feature } from "./features.js";
+import { NODE_VERSIONS } from "./node-versions.js";
+import {
+  PACKAGE_MANAGERS,
+  getPackageManagerConfig,
+  getRunScriptCommand,
+  type Command,
+  type PackageManager,
+} from "./package-managers.js";
+import {
+  readTemplateManifest,
+  renderTemplateDirectory,
+  renderTemplateFile,
+  type ProjectFile,
+  type TemplateContext,
+} from "./template-engine.js";
+import { getVerifyCommands, verifyProject } from "./verify.js";
 
 const currentFilePath = fileURLToPath(import.meta.url);
 const currentDirectory = path.dirname(currentFilePath);
@@ -13,7 +48,7 @@ const currentDirectory = path.dirname(currentFilePath);
  * Works in both development (src/templates) and production (dist/templates) environments.
  * @returns {string} The absolute path to the templates directory
  */
-function getTemplatesDirectory(): string {
+export function getTemplatesDirectory(): string {
   const productionPath = path.join(currentDirectory, "templates");
   const developmentPath = path.join(currentDirectory, "..", "src", "templates");
 
@@ -24,141 +59,456 @@ function getTemplatesDirectory(): string {
   return developmentPath;
 }
 
+/** Templates a project is rendered from */
+export interface ProjectTemplates {
+  /** Directory with `base/`, `tsconfig/` and an optional `template.json`, as the bundled templates */
+  readonly directory: string;
+  /** Values of the variables and flags declared by a custom template and the features */
+  readonly values?: TemplateContext;
+  /** Plugin features to add, in the order they are applied */
+  readonly features?: readonly Feature[];
+}
+
+/** Everything a project generation would do, used for dry runs */
+export interface ProjectPlan {
+  readonly projectPath: string;
+  readonly files: readonly ProjectFile[];
+  readonly commands: readonly Command[];
+  /** Relative paths of the files that already exist in the target directory */
+  readonly conflicts: readonly string[];
+}
+
+/** Commands that initialize the Git repository with an initial commit */
+const GIT_COMMANDS: readonly Command[] = [
+  ["git", "init"],
+  ["git", "add", "."],
+  ["git", "commit", "-m", "Initial commit from express-ts-wizard"],
+];
+
 /**
- * Copies template files to the target project directory.
- * @param {string} templatesDirectory - Path to the templates directory
- * @param {string} projectPath - Path to the new project directory
- * @param {string} projectName - Name of the project for package.json
- * @param {TsStrictness} tsStrictness - TypeScript strictness level to use
- * @returns {Promise<void>} Resolves when all files are copied
- * @throws {Error} If file operations fail
+ * Builds flags for every value of a choice, e.g. `PACKAGE_MANAGER_PNPM`.
+ * @param {string} prefix - Flag name prefix
+ * @param {readonly string[]} values - All possible values of the choice
+ * @param {string | readonly string[]} selected - The selected value, or values for multiple-choice options
+ * @returns {Record<string, boolean>} One flag per value, true only for the selected ones
  */
-async function copyProjectFiles(
-  templatesDirectory: string,
-  projectPath: string,
-  projectName: string,
-  tsStrictness: TsStrictness
-): Promise<void> {
-  await fs.ensureDir(path.join(projectPath, "src"));
-
-  const sourceIndexPath = path.join(templatesDirectory, "base", "src", "index.ts");
-  await fs.copy(sourceIndexPath, path.join(projectPath, "src", "index.ts"));
+function buildChoiceFlags(
+  prefix: string,
+  values: readonly string[],
+  selected: string | readonly string[]
+): Record<string, boolean> {
+  const selectedValues: readonly string[] = typeof selected === "string" ? [selected] : selected;
+  return Object.fromEntries(
+    values.map((value) => [`${prefix}_${value.toUpperCase().replace(/-/g, "_")}`, selectedValues.includes(value)])
+  );
+}
 
-  const gitignoreSourcePath = path.join(templatesDirectory, "base", "gitignore");
-  await fs.copy(gitignoreSourcePath, path.join(projectPath, ".gitignore"));
+/**
+ * Builds the variables and flags available to the templates from the user's choices.
+ * @param {UserChoices} choices - User selections from the wizard
+ * @returns {TemplateContext} The template context
+ */
+export function buildTemplateContext(choices: UserChoices): TemplateContext {
+  const packageManagerConfig = getPackageManagerConfig(choices.packageManager);
+  return {
+    variables: {
+      PROJECT_NAME: choices.projectName,
+      DESCRIPTION: choices.description ?? DEFAULT_METADATA.description,
+      AUTHOR: choices.author ?? DEFAULT_METADATA.author,
+      LICENSE: choices.license ?? DEFAULT_METADATA.license,
+      PORT: String(choices.port ?? DEFAULT_METADATA.port),
+      NODE_VERSION: choices.nodeVersion,
+      INSTALL_CI_COMMAND: packageManagerConfig.ciCommand,
+      LOCK_FILE: packageManagerConfig.lockFile,
+      PRUNE_COMMAND: packageManagerConfig.pruneCommand,
+      BUILD_COMMAND: getRunScriptCommand(choices.packageManager, "build"),
+      SERVER_ENTRY: choices.layout === "layered" ? "server" : "index",
+      // Config files written as ES modules need the .mjs extension in CommonJS packages
+      ESM_EXTENSION: choices.moduleFormat === "esm" ? "js" : "mjs",
+      MIDDLEWARE_DIR: choices.layout === "layered" ? "src/middleware" : "src",
+      // Environment variables of plugin features, see getFeatureContext
+      FEATURE_ENV_SCHEMA: "",
+      FEATURE_ENV_EXAMPLE: "",
+    },
+    flags: {
+      INIT_GIT: choices.initGit,
+      ...buildChoiceFlags("TS_STRICTNESS", TS_STRICTNESS_LEVELS, choices.tsStrictness),
+      ...buildChoiceFlags("MODULE", MODULE_FORMATS, choices.moduleFormat),
+      ...buildChoiceFlags("NODE_VERSION", NODE_VERSIONS, choices.nodeVersion),
+      ...buildChoiceFlags("PACKAGE_MANAGER", PACKAGE_MANAGERS, choices.packageManager),
+      ...buildChoiceFlags("LAYOUT", PROJECT_LAYOUTS, choices.layout),
+      TESTS: choices.testRunner !== "none",
+      ...buildChoiceFlags("TEST_RUNNER", TEST_RUNNERS, choices.testRunner),
+      LINT: choices.linter !== "none",
+      ...buildChoiceFlags("LINTER", LINTERS, choices.linter),
+      ...buildChoiceFlags("SECURITY", SECURITY_FEATURES, choices.security),
+      LOGGING: choices.logging,
+      OPENAPI: choices.openapi,
+      DOCKER: choices.docker,
+      FEATURE_ENV: false,
+    },
+  };
+}
 
-  const envExampleSourcePath = path.join(templatesDirectory, "base", ".env.example");
-  await fs.copy(envExampleSourcePath, path.join(projectPath, ".env.example"));
+/**
+ * Renders the template files of the project in memory.
+ * Every file under `base` is rendered (minus those excluded by the template manifest),
+ * followed by the tsconfig preset for the chosen strictness level and the files of the features.
+ * @param {ProjectTemplates} templates - The templates directory, features and values of their declared variables
+ * @param {UserChoices} choices - User selections from the wizard
+ * @returns {Promise<ProjectFile[]>} The files of the project
+ * @throws {Error} If a template file cannot be read or rendered
+ */
+async function collectProjectFiles(templates: ProjectTemplates, choices: UserChoices): Promise<ProjectFile[]> {
+  const { features = [] } = templates;
+  const builtInContext = buildTemplateContext(choices);
+  const featureContext = getFeatureContext(features);
+  const context: TemplateContext = {
+    variables: { ...builtInContext.variables, ...featureContext.variables, ...templates.values?.variables },
+    flags: { ...builtInContext.flags, ...featureContext.flags, ...templates.values?.flags },
+  };
+  const manifest = await readTemplateManifest(templates.directory);
 
-  const packageTemplateContent = await fs.readFile(
-    path.join(templatesDirectory, "base", "package.template.json"),
-    "utf-8"
+  const baseFiles = await renderTemplateDirectory(path.join(templates.directory, "base"), context, manifest);
+  const tsconfigFile = await renderTemplateFile(
+    path.join(templates.directory, "tsconfig", `${choices.tsStrictness}.json`),
+    "tsconfig.json",
+    context
   );
-  const packageJsonContent = packageTemplateContent.replace(/\{\{PROJECT_NAME\}\}/g, projectName);
-  await fs.writeFile(path.join(projectPath, "package.json"), packageJsonContent);
 
-  const tsconfigSourcePath = path.join(templatesDirectory, "tsconfig", `${tsStrictness}.json`);
-  await fs.copy(tsconfigSourcePath, path.join(projectPath, "tsconfig.json"));
+  return applyFeatures([...baseFiles, tsconfigFile], features, { ...context, choices });
 }
 
 /**
- * Installs npm dependencies in the project directory.
- * Uses a two-step process to ensure all packages (including optional native ones) are installed:
- * 1. npm install --package-lock-only - generates package-lock.json without downloading packages
- * 2. npm ci - performs a clean install based on the lock file
- * This approach is needed because npm install with stdio: "pipe" skips optional native packages.
+ * Writes rendered project files to the project directory, overwriting existing files.
  * @param {string} projectPath - Path to the project directory
+ * @param {readonly ProjectFile[]} files - Files to write
+ * @returns {Promise<void>} Resolves when all files are written
+ * @throws {Error} If file operations fail
+ */
+export async function writeProjectFiles(projectPath: string, files: readonly ProjectFile[]): Promise<void> {
+  for (const file of files) {
+    const filePath = path.join(projectPath, ...file.relativePath.split("/"));
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, file.content);
+  }
+}
+
+/**
+ * Installs dependencies in the project directory with the chosen package manager.
+ * Runs the package manager's install commands in order and verifies that its lock file
+ * was generated, so the project always has deterministic installs.
+ * @param {string} projectPath - Path to the project directory
+ * @param {PackageManager} packageManager - Package manager used to install
+ * @param {AbortSignal} signal - Stops the running command when aborted
  * @returns {Promise<void>} Resolves when dependencies are installed and lock file is generated
- * @throws {Error} If npm install fails
+ * @throws {Error} If an install command fails or the lock file was not generated
  */
-async function installDependencies(projectPath: string): Promise<void> {
-  // Generate package-lock.json without downloading packages
-  await execa("npm", ["install", "--package-lock-only"], {
-    cwd: projectPath,
-    stdio: "pipe",
-  });
+export async function installDependencies(
+  projectPath: string,
+  packageManager: PackageManager,
+  signal?: AbortSignal
+): Promise<void> {
+  const { lockFile, installCommands } = getPackageManagerConfig(packageManager);
 
-  const lockFilePath = path.join(projectPath, "package-lock.json");
-  if (!fs.existsSync(lockFilePath)) {
-    throw new Error("package-lock.json was not generated");
+  for (const [command, ...args] of installCommands) {
+    await execa(command, args, {
+      cwd: projectPath,
+      stdio: "pipe",
+      ...(signal && { cancelSignal: signal }),
+    });
   }
 
-  // Clean install based on lock file (ensures all optional packages are installed)
-  await execa("npm", ["ci"], {
-    cwd: projectPath,
-    stdio: "pipe",
-  });
+  if (!fs.existsSync(path.join(projectPath, lockFile))) {
+    throw new Error(`${lockFile} was not generated`);
+  }
 }
 
 /**
  * Initializes a Git repository with an initial commit.
  * @param {string} projectPath - Path to the project directory
+ * @param {AbortSignal} signal - Stops the running command when aborted
  * @returns {Promise<void>} Resolves when Git is initialized and first commit is made
  * @throws {Error} If git commands fail
  */
-async function initializeGitRepository(projectPath: string): Promise<void> {
-  await execa("git", ["init"], {
-    cwd: projectPath,
-    stdio: "pipe",
-  });
-
-  await execa("git", ["add", "."], {
-    cwd: projectPath,
-    stdio: "pipe",
-  });
-
-  await execa("git", ["commit", "-m", "Initial commit from express-ts-wizard"], {
-    cwd: projectPath,
-    stdio: "pipe",
-  });
+async function initializeGitRepository(projectPath: string, signal?: AbortSignal): Promise<void> {
+  for (const [command, ...args] of GIT_COMMANDS) {
+    await execa(command, args, {
+      cwd: projectPath,
+      stdio: "pipe",
+      ...(signal && { cancelSignal: signal }),
+    });
+  }
 }
 
 /**
- * Creates a new Express + TypeScript project based on user choices.
- * Handles directory creation, file copying, dependency installation, and Git initialization.
+ * Checks whether Git should be initialized in the target directory.
+ * A directory that already is a repository, e.g. a freshly cloned one, is left as it is.
  * @param {UserChoices} choices - User selections from the wizard
- * @returns {Promise<void>} Resolves when the project is fully created
- * @throws {Error} If the target directory already exists or file operations fail
+ * @param {string} projectPath - The target directory
+ * @returns {boolean} True if the Git commands should run
  */
-export async function createProject(choices: UserChoices): Promise<void> {
-  const { projectName, tsStrictness, initGit } = choices;
-  const projectPath = path.resolve(process.cwd(), projectName);
-  const templatesDirectory = getTemplatesDirectory();
+function shouldInitializeGit(choices: UserChoices, projectPath: string): boolean {
+  return choices.initGit && !fs.existsSync(path.join(projectPath, ".git"));
+}
 
-  if (fs.existsSync(projectPath)) {
-    p.cancel(`Directory "${projectName}" already exists.`);
-    process.exit(1);
+/**
+ * Moves the entries of a directory into an existing one, merging subdirectories.
+ * @param {string} source - The directory whose entries are moved
+ * @param {string} target - The existing directory
+ * @param {boolean} overwrite - Whether to replace existing files; otherwise they are kept
+ * @returns {Promise<void>} Resolves when every entry is moved or skipped
+ * @throws {Error} If an entry cannot be moved
+ */
+async function moveInto(source: string, target: string, overwrite: boolean): Promise<void> {
+  for (const entry of await fs.readdir(source, { withFileTypes: true })) {
+    const sourcePath = path.join(source, entry.name);
+    const targetPath = path.join(target, entry.name);
+    if (!fs.existsSync(targetPath)) {
+      await fs.move(sourcePath, targetPath);
+    } else if (entry.isDirectory() && fs.statSync(targetPath).isDirectory()) {
+      await moveInto(sourcePath, targetPath, overwrite);
+    } else if (overwrite) {
+      await fs.move(sourcePath, targetPath, { overwrite: true });
+    }
   }
+}
 
-  const spinner = p.spinner();
+/** Options that decide where a project goes and which commands run, shared by planning and generation */
+export interface PlanProjectOptions {
+  /** Directory the project directory is resolved from (default: the current directory) */
+  readonly cwd?: string;
+  /** Whether to install dependencies (default: true), e.g. to install them later with custom flags */
+  readonly install?: boolean;
+  /** Whether to type-check, build and boot the project once installed (default: false), see {@link verifyProject} */
+  readonly verify?: boolean;
+}
+
+/** Progress of a step of {@link createProject} */
+export interface ProjectProgress {
+  readonly step: ProjectStep;
+  readonly status: "start" | "done" | "failed";
+}
 
-  spinner.start("Creating project structure...");
+/** Options that control how a project is generated, independent of the user's choices */
+export interface CreateProjectOptions extends PlanProjectOptions {
+  /** Keep the staging directory when generation fails or is interrupted, for debugging */
+  readonly keepOnFailure?: boolean;
+  /** Compute what would be generated and run without touching the disk */
+  readonly dryRun?: boolean;
+  /** Templates to render instead of the bundled ones, e.g. loaded with --template */
+  readonly templates?: ProjectTemplates;
+  /**
+   * What to do when the target directory already contains files of the project (default: "abort"),
+   * or a function choosing it from their relative paths, e.g. by asking the user
+   */
+  readonly onConflict?: ConflictStrategy | ((conflicts: readonly string[]) => Promise<ConflictStrategy>);
+  /** Called when a step starts, finishes or fails */
+  readonly onProgress?: (progress: ProjectProgress) => void;
+  /** Cancels the generation; the partially generated project is removed and a GenerationCancelledError thrown */
+  readonly signal?: AbortSignal;
+}
+
+/** What {@link createProject} did, or would do in a dry run */
+export interface CreateProjectResult extends ProjectPlan {
+  readonly install: "installed" | "skipped";
+  readonly verify: "passed" | "skipped";
+  /** Git failures do not fail the generation, since the project is usable without a repository */
+  readonly git: "initialized" | "failed" | "skipped";
+}
+
+/**
+ * Runs one step of the generation, reporting its progress.
+ * @param {ProjectStep} step - The step to run
+ * @param {() => Promise<void>} run - Performs the step
+ * @param {CreateProjectOptions} options - Options with the progress callback
+ * @returns {Promise<void>} Resolves when the step is done
+ * @throws {Error} The error of the step, after reporting it as failed
+ */
+async function runStep(step: ProjectStep, run: () => Promise<void>, options: CreateProjectOptions): Promise<void> {
+  options.onProgress?.({ step, status: "start" });
   try {
-    await copyProjectFiles(templatesDirectory, projectPath, projectName, tsStrictness);
-    spinner.stop("Project structure created ✓");
+    await run();
   } catch (error) {
-    spinner.stop("Error creating structure");
+    options.onProgress?.({ step, status: "failed" });
     throw error;
   }
+  options.onProgress?.({ step, status: "done" });
+}
+
+/**
+ * Writes the project files, installs dependencies, verifies the project and initializes Git in the given directory.
+ * @param {ProjectPlan} plan - The rendered files of the project
+ * @param {UserChoices} choices - User selections from the wizard
+ * @param {string} projectPath - Directory where the project is generated
+ * @param {CreateProjectOptions} options - Generation options
+ * @returns {Promise<Pick<CreateProjectResult, "install" | "verify" | "git">>} The outcome of each optional step
+ * @throws {GenerationError} If writing the files, installing dependencies or verifying the project fails
+ * @throws {Error} The abort reason, if the signal is aborted
+ */
+async function generateProject(
+  plan: ProjectPlan,
+  choices: UserChoices,
+  projectPath: string,
+  options: CreateProjectOptions
+): Promise<Pick<CreateProjectResult, "install" | "verify" | "git">> {
+  const { install = true, verify = false, signal } = options;
 
-  spinner.start("Installing dependencies...");
   try {
-    await installDependencies(projectPath);
-    spinner.stop("Dependencies installed ✓");
+    await runStep("files", () => writeProjectFiles(projectPath, plan.files), options);
   } catch (error) {
-    spinner.stop("Error installing dependencies");
-    throw error;
+    throw new GenerationError("files", error);
   }
+  signal?.throwIfAborted();
 
-  if (initGit) {
-    spinner.start("Initializing Git...");
+  if (install) {
+    try {
+      await runStep("install", () => installDependencies(projectPath, choices.packageManager, signal), options);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new GenerationError("install", error);
+    }
+  }
+  if (verify) {
     try {
-      await initializeGitRepository(projectPath);
-      spinner.stop("Git initialized ✓");
-    } catch {
-      spinner.stop("Error initializing Git (may not be installed)");
-      // Git initialization is optional, so we don't throw
+      await runStep("verify", () => verifyProject(projectPath, choices.packageManager, signal), options);
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new GenerationError("verify", error);
+    }
+  }
+  const statuses = { install: install ? "installed" : "skipped", verify: verify ? "passed" : "skipped" } as const;
+  if (!shouldInitializeGit(choices, plan.projectPath)) {
+    return { ...statuses, git: "skipped" };
+  }
+
+  try {
+    await runStep("git", () => initializeGitRepository(projectPath, signal), options);
+  } catch {
+    signal?.throwIfAborted();
+    return { ...statuses, git: "failed" };
+  }
+  return { ...statuses, git: "initialized" };
+}
+
+/**
+ * Computes the files and commands a project generation would produce, without touching the disk.
+ * The project goes in `choices.directory`, or a directory named after the project without its scope, under `cwd`.
+ * @param {UserChoices} choices - User selections from the wizard
+ * @param {ProjectTemplates} templates - Templates to render (default: the bundled templates)
+ * @param {PlanProjectOptions} options - Where the project goes and whether it is installed and verified
+ * @returns {Promise<ProjectPlan>} The target path, rendered files, commands to run and files already there
+ * @throws {Error} If a template file cannot be read
+ */
+export async function planProject(
+  choices: UserChoices,
+  templates: ProjectTemplates = { directory: getTemplatesDirectory() },
+  options: PlanProjectOptions = {}
+): Promise<ProjectPlan> {
+  const { cwd = process.cwd(), install = true, verify = false } = options;
+  const files = await collectProjectFiles(templates, choices);
+  const { installCommands } = getPackageManagerConfig(choices.packageManager);
+  const projectPath = path.resolve(cwd, choices.directory ?? getProjectDirectoryName(choices.projectName));
+  const conflicts = fs.existsSync(projectPath)
+    ? files
+        .map((file) => file.relativePath)
+        .filter((relativePath) => fs.existsSync(path.join(projectPath, ...relativePath.split("/"))))
+    : [];
+
+  return {
+    projectPath,
+    files,
+    commands: [
+      ...(install ? installCommands : []),
+      ...(verify ? getVerifyCommands(choices.packageManager) : []),
+      ...(shouldInitializeGit(choices, projectPath) ? GIT_COMMANDS : []),
+    ],
+    conflicts,
+  };
+}
+
+/**
+ * Creates a new Express + TypeScript project based on user choices.
+ * The project is generated in a hidden staging directory next to the target and only moved
+ * into place once every step succeeded. On failure or cancellation the staging directory is
+ * removed, so a failed run never leaves a half-populated project behind.
+ * The target directory may already exist, e.g. a cloned repository with a README: files of the
+ * project that are already there are handled according to `onConflict`, and others are left alone.
+ * Nothing is printed: progress is reported through `onProgress` and the outcome is returned.
+ * With `dryRun`, the project is only planned and nothing is written or run.
+ * @param {UserChoices} choices - User selections from the wizard
+ * @param {CreateProjectOptions} options - Generation options
+ * @returns {Promise<CreateProjectResult>} The project path, its files and the outcome of each step
+ * @throws {DirectoryConflictError} If the target directory contains files of the project and `onConflict` is "abort"
+ * @throws {WizardError} If `verify` is set without installing dependencies
+ * @throws {GenerationError} If the target is not a directory, or writing, installing or verifying fails
+ * @throws {GenerationCancelledError} If the signal is aborted
+ */
+export async function createProject(
+  choices: UserChoices,
+  options: CreateProjectOptions = {}
+): Promise<CreateProjectResult> {
+  const {
+    keepOnFailure = false,
+    dryRun = false,
+    templates = { directory: getTemplatesDirectory() },
+    onConflict = "abort",
+    signal,
+  } = options;
+  if (options.verify && options.install === false) {
+    throw new WizardError("Verifying a project requires installing its dependencies");
+  }
+
+  let plan: ProjectPlan;
+  try {
+    plan = await planProject(choices, templates, options);
+  } catch (error) {
+    throw new GenerationError("files", error);
+  }
+  const { projectPath, conflicts } = plan;
+  const targetExists = fs.existsSync(projectPath);
+  if (targetExists && !fs.statSync(projectPath).isDirectory()) {
+    throw new GenerationError("files", new Error(`${projectPath} already exists and is not a directory`));
+  }
+  if (dryRun) {
+    return { ...plan, install: "skipped", verify: "skipped", git: "skipped" };
+  }
+
+  let strategy: ConflictStrategy = "merge";
+  if (conflicts.length > 0) {
+    strategy = typeof onConflict === "function" ? await onConflict(conflicts) : onConflict;
+    if (strategy === "abort") {
+      throw new DirectoryConflictError(projectPath, conflicts);
+    }
+  }
+  if (signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+
+  // Staging next to the target keeps the final move on the same file system (a cheap rename)
+  const stagingPath = await fs.mkdtemp(path.join(path.dirname(projectPath), `.${path.basename(projectPath)}-`));
+
+  try {
+    const outcome = await generateProject(plan, choices, stagingPath, options);
+    signal?.throwIfAborted();
+    if (targetExists) {
+      await moveInto(stagingPath, projectPath, strategy === "overwrite");
+      fs.removeSync(stagingPath);
+    } else {
+      // mkdtemp creates the directory readable by its owner only: give it the mode of a directory made by mkdir
+      await fs.chmod(stagingPath, 0o777 & ~process.umask());
+      await fs.move(stagingPath, projectPath);
+    }
+    return { ...plan, ...outcome };
+  } catch (error) {
+    const keptPath = keepOnFailure ? stagingPath : undefined;
+    if (!keepOnFailure) {
+      fs.removeSync(stagingPath);
+    }
+    if (signal?.aborted) {
+      throw new GenerationCancelledError(keptPath);
     }
+    throw error instanceof GenerationError ? new GenerationError(error.step, error.cause, keptPath) : error;
   }
 }
 
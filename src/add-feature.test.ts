@@ -0,0 +1,224 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import type { UserChoices } from "./prompts.js";
+
+const mockExeca = jest.fn<() => Promise<{ stdout: string; stderr: string }>>();
+jest.unstable_mockModule("execa", () => ({
+  execa: mockExeca,
+}));
+
+jest.unstable_mockModule("@clack/prompts", () => ({
+  spinner: jest.fn(() => ({ start: jest.fn(), stop: jest.fn() })),
+  log: { warn: jest.fn() },
+}));
+
+// Import after mocking
+const { planProject } = await import("./actions.js");
+const { addFeature, detectProjectChoices, enableFeature, mergePackageJson, planFeatureAddition } = await import(
+  "./add-feature.js"
+);
+
+const baseChoices: UserChoices = {
+  projectName: "orders-api",
+  tsStrictness: "moderate",
+  moduleFormat: "esm",
+  nodeVersion: "22",
+  packageManager: "npm",
+  layout: "minimal",
+  testRunner: "none",
+  linter: "none",
+  security: ["helmet", "cors"],
+  logging: false,
+  openapi: false,
+  docker: false,
+  initGit: false,
+  description: "Orders API",
+  author: "Jane Doe",
+  license: "Apache-2.0",
+  port: 8080,
+};
+
+describe("add-feature", () => {
+  let projectPath: string;
+
+  /**
+   * Writes a generated project, as the wizard would, into the temporary project directory.
+   * @param {UserChoices} choices - Choices the project is generated with
+   * @returns {Promise<void>} Resolves when every file is written
+   */
+  async function generateProject(choices: UserChoices): Promise<void> {
+    const { files } = await planProject(choices);
+    for (const file of files) {
+      await fs.outputFile(path.join(projectPath, file.relativePath), file.content);
+    }
+    await fs.outputFile(path.join(projectPath, "package-lock.json"), "{}\n");
+  }
+
+  /**
+   * Reads a file of the temporary project.
+   * @param {string} relativePath - Path relative to the project root
+   * @returns {Promise<string>} The file content
+   */
+  function readFile(relativePath: string): Promise<string> {
+    return fs.readFile(path.join(projectPath, relativePath), "utf-8");
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "" });
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "add-feature-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  describe("detectProjectChoices", () => {
+    it("should detect the choices of a minimal project", async () => {
+      await generateProject(baseChoices);
+
+      expect(await detectProjectChoices(projectPath)).toEqual(baseChoices);
+    });
+
+    it("should detect the choices of a fully featured project", async () => {
+      const choices: UserChoices = {
+        ...baseChoices,
+        tsStrictness: "strict",
+        moduleFormat: "cjs",
+        nodeVersion: "24",
+        layout: "layered",
+        testRunner: "node",
+        linter: "biome",
+        security: ["helmet", "cors", "rate-limit", "body-limit"],
+        logging: true,
+        openapi: true,
+        docker: true,
+      };
+      await generateProject(choices);
+
+      expect(await detectProjectChoices(projectPath)).toEqual(choices);
+    });
+
+    it("should throw outside of a project", async () => {
+      await expect(detectProjectChoices(projectPath)).rejects.toThrow(`No package.json found in ${projectPath}`);
+    });
+  });
+
+  describe("enableFeature", () => {
+    it("should enable the feature with the requested tooling", () => {
+      expect(enableFeature(baseChoices, "docker").docker).toBe(true);
+      expect(enableFeature(baseChoices, "tests").testRunner).toBe("vitest");
+      expect(enableFeature(baseChoices, "tests", { testRunner: "jest" }).testRunner).toBe("jest");
+      expect(enableFeature(baseChoices, "lint", { linter: "biome" }).linter).toBe("biome");
+    });
+
+    it("should throw when the project already has the feature", () => {
+      expect(() => enableFeature({ ...baseChoices, linter: "biome" }, "lint")).toThrow(
+        "The project already has linting"
+      );
+    });
+  });
+
+  describe("mergePackageJson", () => {
+    it("should add new entries, update generated ones and keep the user's", () => {
+      const result = mergePackageJson(
+        {
+          scripts: { dev: "tsx watch src/index.ts --inspect", build: "tsc", seed: "tsx src/seed.ts" },
+          dependencies: { express: "^5.1.0" },
+        },
+        { scripts: { dev: "tsx watch src/index.ts", build: "tsc" }, dependencies: { express: "^5.0.0" } },
+        {
+          scripts: { dev: "tsx watch src/index.ts | pino-pretty", build: "tsc -p tsconfig.build.json", test: "vitest" },
+          dependencies: { express: "^5.0.0", pino: "^10.0.0" },
+        }
+      );
+
+      expect(result).toEqual({
+        packageJson: {
+          scripts: {
+            dev: "tsx watch src/index.ts --inspect",
+            build: "tsc -p tsconfig.build.json",
+            seed: "tsx src/seed.ts",
+            test: "vitest",
+          },
+          dependencies: { express: "^5.1.0", pino: "^10.0.0" },
+        },
+        keptEntries: ["scripts.dev"],
+      });
+    });
+  });
+
+  describe("addFeature", () => {
+    it("should create the feature files without reinstalling when package.json is unchanged", async () => {
+      await generateProject(baseChoices);
+
+      const plan = await addFeature(projectPath, "docker");
+
+      expect(plan.createdFiles.map((file) => file.relativePath)).toEqual([
+        ".dockerignore",
+        "Dockerfile",
+        "docker-compose.yml",
+      ]);
+      expect(plan.updatedFiles).toEqual([]);
+      expect(await readFile("Dockerfile")).toContain("FROM node:22-alpine");
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it("should produce the same files as generating the project with the feature", async () => {
+      await generateProject(baseChoices);
+
+      await addFeature(projectPath, "tests", { testRunner: "vitest" });
+
+      const { files } = await planProject({ ...baseChoices, testRunner: "vitest" });
+      for (const file of files.filter(({ relativePath }) => relativePath !== "package.json")) {
+        expect(await readFile(file.relativePath)).toBe(file.content);
+      }
+      const packageJson = (await fs.readJson(path.join(projectPath, "package.json"))) as Record<string, unknown>;
+      expect(packageJson).toEqual(JSON.parse(files.find((file) => file.relativePath === "package.json")?.content ?? ""));
+      expect(mockExeca).toHaveBeenCalledWith("npm", ["ci"], expect.objectContaining({ cwd: projectPath }));
+    });
+
+    it("should refuse to overwrite files changed by the user", async () => {
+      await generateProject(baseChoices);
+      await fs.appendFile(path.join(projectPath, "src/app.ts"), "// custom route\n");
+
+      await expect(addFeature(projectPath, "logging")).rejects.toThrow(
+        "These files were changed since they were generated and would be overwritten: src/app.ts. Re-run with --force to overwrite them."
+      );
+      expect(await readFile("src/app.ts")).toContain("// custom route");
+      expect(fs.existsSync(path.join(projectPath, "src/request-logger.ts"))).toBe(false);
+    });
+
+    it("should overwrite files changed by the user with force", async () => {
+      await generateProject(baseChoices);
+      await fs.appendFile(path.join(projectPath, "src/app.ts"), "// custom route\n");
+
+      const plan = await addFeature(projectPath, "logging", { force: true });
+
+      expect(plan.conflicts).toEqual(["src/app.ts"]);
+      expect(await readFile("src/app.ts")).not.toContain("// custom route");
+      expect(await readFile("src/app.ts")).toContain("requestLogger");
+    });
+
+    it("should keep package.json scripts changed by the user", async () => {
+      await generateProject(baseChoices);
+      const packageJsonPath = path.join(projectPath, "package.json");
+      const packageJson = (await fs.readJson(packageJsonPath)) as { scripts: Record<string, string> };
+      await fs.writeJson(packageJsonPath, {
+        ...packageJson,
+        scripts: { ...packageJson.scripts, dev: "tsx watch --env-file=.env src/index.ts" },
+      });
+
+      const plan = await planFeatureAddition(projectPath, "logging");
+
+      expect(plan.keptEntries).toEqual(["scripts.dev"]);
+      expect(JSON.parse(plan.packageJson ?? "")).toMatchObject({
+        scripts: { dev: "tsx watch --env-file=.env src/index.ts" },
+        dependencies: { pino: "^10.0.0", "pino-http": "^11.0.0" },
+        devDependencies: { "pino-pretty": "^13.0.0" },
+      });
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import * as p from "@clack/prompts";
+import fs from "fs-extra";
+import path from "path";
+import { installDependencies, planProject, writeProjectFiles } from "./actions.js";
+import { detectNodeVersion, isNodeVersion } from "./node-versions.js";
+import { PACKAGE_MANAGERS, detectPackageManager, getPackageManagerConfig } from "./package-managers.js";
+import {
+  SECURITY_FEATURES,
+  type Linter,
+  type SecurityFeature,
+  type TestRunner,
+  type TsStrictness,
+  type UserChoices,
+} from "./prompts.js";
+import type { ProjectFile } from "./template-engine.js";
+
+/** Features that can be added to an existing project with `express-ts-wizard add` */
+export type AddableFeature = "docker" | "tests" | "lint" | "logging" | "openapi";
+
+/** All addable features, in help order */
+export const ADDABLE_FEATURES: readonly AddableFeature[] = ["docker", "tests", "lint", "logging", "openapi"];
+
+/** Options of `express-ts-wizard add` */
+export interface AddFeatureOptions {
+  /** Test runner to set up when adding tests (default: vitest) */
+  readonly testRunner?: Exclude<TestRunner, "none">;
+  /** Toolchain to set up when adding linting (default: eslint-prettier) */
+  readonly linter?: Exclude<Linter, "none">;
+  /** Overwrite files that were changed since they were generated */
+  readonly force?: boolean;
+}
+
+/** Everything adding a feature would change in a project */
+export interface FeatureAdditionPlan {
+  /** Choices detected from the project, with the feature enabled */
+  readonly choices: UserChoices;
+  /** Files that do not exist in the project yet */
+  readonly createdFiles: readonly ProjectFile[];
+  /** Existing files whose content changes */
+  readonly updatedFiles: readonly ProjectFile[];
+  /** Paths of files to write that differ from what the wizard generated, i.e. were edited by the user */
+  readonly conflicts: readonly string[];
+  /** The merged package.json, or null if it does not change */
+  readonly packageJson: string | null;
+  /** package.json entries kept because the user changed them, e.g. `scripts.dev` */
+  readonly keptEntries: readonly string[];
+}
+
+/** Fields of package.json read by the wizard */
+export interface PackageJson {
+  readonly [key: string]: unknown;
+  readonly name?: string;
+  readonly description?: string;
+  readonly author?: unknown;
+  readonly license?: string;
+  readonly type?: string;
+  readonly scripts?: Readonly<Record<string, string>>;
+  readonly dependencies?: Readonly<Record<string, string>>;
+  readonly devDependencies?: Readonly<Record<string, string>>;
+  readonly engines?: { readonly node?: string };
+}
+
+/** package.json sections merged when adding a feature */
+const MERGED_SECTIONS = ["scripts", "dependencies", "devDependencies"] as const;
+
+/** Security middleware and the dependency that reveals it; body-limit has none and is read from src/env.ts */
+const SECURITY_DEPENDENCIES: Readonly<Record<Exclude<SecurityFeature, "body-limit">, string>> = {
+  helmet: "helmet",
+  cors: "cors",
+  "rate-limit": "express-rate-limit",
+};
+
+/**
+ * Checks whether a value is a feature that can be added to an existing project.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is an addable feature
+ */
+export function isAddableFeature(value: string): value is AddableFeature {
+  return (ADDABLE_FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads a file of the project if it exists.
+ * @param {string} projectPath - Path to the project directory
+ * @param {string} relativePath - Path relative to the project root, using forward slashes
+ * @returns {Promise<string | null>} The file content, or null if the file does not exist
+ */
+async function readProjectFile(projectPath: string, relativePath: string): Promise<string | null> {
+  const filePath = path.join(projectPath, ...relativePath.split("/"));
+  return fs.existsSync(filePath) ? fs.readFile(filePath, "utf-8") : null;
+}
+
+/**
+ * Parses a JSON file of the project.
+ * @param {string} projectPath - Path to the project directory
+ * @param {string} relativePath - Path relative to the project root
+ * @returns {Promise<T>} The parsed content
+ * @throws {Error} If the file does not exist or is not valid JSON
+ */
+async function readProjectJson<T>(projectPath: string, relativePath: string): Promise<T> {
+  const content = await readProjectFile(projectPath, relativePath);
+  if (content === null) {
+    throw new Error(
+      `No ${relativePath} found in ${projectPath}. Run this command inside a project generated by express-ts-wizard.`
+    );
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${relativePath}: ${message}`);
+  }
+}
+
+/**
+ * Detects the choices an existing project was generated with from its package.json,
+ * tsconfig.json and files. Values that cannot be detected fall back to the wizard's defaults.
+ * @param {string} projectPath - Path to the project directory
+ * @returns {Promise<UserChoices>} The detected choices
+ * @throws {Error} If package.json or tsconfig.json is missing or invalid
+ */
+export async function detectProjectChoices(projectPath: string): Promise<UserChoices> {
+  const packageJson = await readProjectJson<PackageJson>(projectPath, "package.json");
+  const tsconfig = await readProjectJson<{ compilerOptions?: Readonly<Record<string, unknown>> }>(
+    projectPath,
+    "tsconfig.json"
+  );
+  const envSource = (await readProjectFile(projectPath, "src/env.ts")) ?? "";
+
+  const scripts = packageJson.scripts ?? {};
+  const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  const hasDependency = (name: string): boolean => Object.hasOwn(dependencies, name);
+  const hasFile = (relativePath: string): boolean => fs.existsSync(path.join(projectPath, relativePath));
+
+  const compilerOptions = tsconfig.compilerOptions ?? {};
+  const tsStrictness: TsStrictness =
+    compilerOptions.strict === false
+      ? "relaxed"
+      : compilerOptions.noUncheckedIndexedAccess === true
+        ? "strict"
+        : "moderate";
+
+  const testRunner: TestRunner = hasDependency("vitest")
+    ? "vitest"
+    : hasDependency("jest")
+      ? "jest"
+      : scripts.test?.includes("tsx --test")
+        ? "node"
+        : "none";
+
+  const linter: Linter = hasDependency("@biomejs/biome")
+    ? "biome"
+    : hasDependency("eslint")
+      ? "eslint-prettier"
+      : "none";
+
+  const security = SECURITY_FEATURES.filter((feature) =>
+    feature === "body-limit" ? envSource.includes("BODY_LIMIT") : hasDependency(SECURITY_DEPENDENCIES[feature])
+  );
+
+  const nodeVersion = /\d+/.exec(packageJson.engines?.node ?? "")?.[0] ?? "";
+  const packageManager =
+    PACKAGE_MANAGERS.find((name) => hasFile(getPackageManagerConfig(name).lockFile)) ?? detectPackageManager();
+  const port = /PORT: z\.coerce\.number\(\).*\.default\((\d+)\)/.exec(envSource)?.[1];
+
+  return {
+    projectName: packageJson.name ?? path.basename(projectPath),
+    tsStrictness,
+    moduleFormat: packageJson.type === "commonjs" ? "cjs" : "esm",
+    nodeVersion: isNodeVersion(nodeVersion) ? nodeVersion : detectNodeVersion(),
+    packageManager,
+    layout: hasFile("src/server.ts") ? "layered" : "minimal",
+    testRunner,
+    linter,
+    security,
+    logging: hasDependency("pino"),
+    openapi: hasDependency("swagger-ui-express"),
+    docker: hasFile("Dockerfile"),
+    initGit: false,
+    ...(packageJson.description !== undefined && { description: packageJson.description }),
+    ...(typeof packageJson.author === "string" && { author: packageJson.author }),
+    ...(packageJson.license !== undefined && { license: packageJson.license }),
+    ...(port !== undefined && { port: Number(port) }),
+  };
+}
+
+/** Name of each addable feature in messages */
+const FEATURE_DESCRIPTIONS: Record<AddableFeature, string> = {
+  docker: "Docker",
+  tests: "tests",
+  lint: "linting",
+  logging: "logging",
+  openapi: "OpenAPI",
+};
+
+/**
+ * Returns the choices of a project with one more feature enabled.
+ * @param {UserChoices} choices - Choices detected from the project
+ * @param {AddableFeature} feature - The feature to enable
+ * @param {AddFeatureOptions} options - Test runner or linter to use
+ * @returns {UserChoices} The choices with the feature enabled
+ * @throws {Error} If the project already has the feature
+ */
+export function enableFeature(
+  choices: UserChoices,
+  feature: AddableFeature,
+  options: AddFeatureOptions = {}
+): UserChoices {
+  const isEnabled: Record<AddableFeature, boolean> = {
+    docker: choices.docker,
+    tests: choices.testRunner !== "none",
+    lint: choices.linter !== "none",
+    logging: choices.logging,
+    openapi: choices.openapi,
+  };
+  if (isEnabled[feature]) {
+    throw new Error(`The project already has ${FEATURE_DESCRIPTIONS[feature]}`);
+  }
+
+  switch (feature) {
+    case "docker":
+      return { ...choices, docker: true };
+    case "tests":
+      return { ...choices, testRunner: options.testRunner ?? "vitest" };
+    case "lint":
+      return { ...choices, linter: options.linter ?? "eslint-prettier" };
+    case "logging":
+      return { ...choices, logging: true };
+    case "openapi":
+      return { ...choices, openapi: true };
+  }
+}
+
+/**
+ * Merges the scripts and dependencies a feature adds into the project's package.json.
+ * Only entries that differ between the package.json generated without and with the feature
+ * are considered: missing entries are added, entries still holding the generated value are
+ * updated, and entries the user changed are kept and reported.
+ * @param {PackageJson} current - The project's package.json
+ * @param {PackageJson} before - package.json generated without the feature
+ * @param {PackageJson} after - package.json generated with the feature
+ * @returns {{ packageJson: PackageJson; keptEntries: string[] }} The merged package.json and the kept entries
+ */
+export function mergePackageJson(
+  current: PackageJson,
+  before: PackageJson,
+  after: PackageJson
+): { packageJson: PackageJson; keptEntries: string[] } {
+  const packageJson: Record<string, unknown> = { ...current };
+  const keptEntries: string[] = [];
+
+  for (const section of MERGED_SECTIONS) {
+    const entries: Record<string, string> = { ...current[section] };
+    for (const [name, value] of Object.entries(after[section] ?? {})) {
+      const generatedValue = before[section]?.[name];
+      if (value === generatedValue) continue;
+
+      const currentValue = entries[name];
+      if (currentValue === undefined || currentValue === generatedValue) {
+        entries[name] = value;
+      } else if (currentValue !== value) {
+        keptEntries.push(`${section}.${name}`);
+      }
+    }
+    if (Object.keys(entries).length > 0) {
+      packageJson[section] = entries;
+    }
+  }
+
+  return { packageJson, keptEntries };
+}
+
+/**
+ * Computes what adding a feature would change in a project, without touching the disk.
+ * The project is rendered from the templates twice, with the detected choices and with the
+ * feature enabled; only files that differ between both renders are touched. An existing file
+ * is a conflict when its content no longer matches the render without the feature.
+ * @param {string} projectPath - Path to the project directory
+ * @param {AddableFeature} feature - The feature to add
+ * @param {AddFeatureOptions} options - Test runner or linter to use
+ * @returns {Promise<FeatureAdditionPlan>} The files to create and update, conflicts and merged package.json
+ * @throws {Error} If the project cannot be read or already has the feature
+ */
+export async function planFeatureAddition(
+  projectPath: string,
+  feature: AddableFeature,
+  options: AddFeatureOptions = {}
+): Promise<FeatureAdditionPlan> {
+  const detectedChoices = await detectProjectChoices(projectPath);
+  const choices = enableFeature(detectedChoices, feature, options);
+  const [before, after] = await Promise.all([planProject(detectedChoices), planProject(choices)]);
+  const generatedContents = new Map(before.files.map((file) => [file.relativePath, file.content]));
+
+  const createdFiles: ProjectFile[] = [];
+  const updatedFiles: ProjectFile[] = [];
+  const conflicts: string[] = [];
+  for (const file of after.files) {
+    const generatedContent = generatedContents.get(file.relativePath);
+    if (file.relativePath === "package.json" || file.content === generatedContent) continue;
+
+    const currentContent = await readProjectFile(projectPath, file.relativePath);
+    if (currentContent === null) {
+      createdFiles.push(file);
+    } else if (currentContent !== file.content) {
+      updatedFiles.push(file);
+      if (currentContent !== generatedContent) {
+        conflicts.push(file.relativePath);
+      }
+    }
+  }
+
+  const parseRendered = (files: readonly ProjectFile[]): PackageJson =>
+    JSON.parse(files.find((file) => file.relativePath === "package.json")?.content ?? "{}") as PackageJson;
+  const currentPackageJson = await readProjectJson<PackageJson>(projectPath, "package.json");
+  const { packageJson, keptEntries } = mergePackageJson(
+    currentPackageJson,
+    parseRendered(before.files),
+    parseRendered(after.files)
+  );
+
+  return {
+    choices,
+    createdFiles,
+    updatedFiles,
+    conflicts,
+    packageJson:
+      JSON.stringify(packageJson) === JSON.stringify(currentPackageJson)
+        ? null
+        : `${JSON.stringify(packageJson, null, 2)}\n`,
+    keptEntries,
+  };
+}
+
+/**
+ * Adds a feature to an existing project: writes the new and updated files, merges package.json
+ * and installs the new dependencies. Files edited by the user are only overwritten with `force`.
+ * @param {string} projectPath - Path to the project directory
+ * @param {AddableFeature} feature - The feature to add
+ * @param {AddFeatureOptions} options - Test runner or linter to use, and whether to overwrite edited files
+ * @returns {Promise<FeatureAdditionPlan>} What was changed
+ * @throws {Error} If edited files would be overwritten without `force`, or writing or installing fails
+ */
+export async function addFeature(
+  projectPath: string,
+  feature: AddableFeature,
+  options: AddFeatureOptions = {}
+): Promise<FeatureAdditionPlan> {
+  const plan = await planFeatureAddition(projectPath, feature, options);
+  if (plan.conflicts.length > 0 && !options.force) {
+    throw new Error(
+      `These files were changed since they were generated and would be overwritten: ${plan.conflicts.join(", ")}. Re-run with --force to overwrite them.`
+    );
+  }
+
+  const spinner = p.spinner();
+
+  spinner.start("Updating project files...");
+  try {
+    await writeProjectFiles(projectPath, [
+      ...plan.createdFiles,
+      ...plan.updatedFiles,
+      ...(plan.packageJson === null ? [] : [{ relativePath: "package.json", content: plan.packageJson }]),
+    ]);
+    spinner.stop("Project files updated ✓");
+  } catch (error) {
+    spinner.stop("Error updating project files");
+    throw error;
+  }
+
+  if (plan.packageJson !== null) {
+    spinner.start("Installing dependencies...");
+    try {
+      await installDependencies(projectPath, plan.choices.packageManager);
+      spinner.stop("Dependencies installed ✓");
+    } catch (error) {
+      spinner.stop("Error installing dependencies");
+      throw error;
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,81 @@
+/**
+ * Library entry point of express-ts-wizard, for generating projects from other tools.
+ * Unlike the CLI, nothing here prompts, prints or exits the process: failures are thrown
+ * as {@link WizardError} subclasses and progress is reported through callbacks.
+ *
+ * @example
+ * import { DEFAULT_CHOICES, createProject } from "express-ts-wizard";
+ *
+ * const result = await createProject(
+ *   { ...DEFAULT_CHOICES, projectName: "orders-api", initGit: false },
+ *   { cwd: "/srv/services", onProgress: ({ step, status }) => console.log(step, status) }
+ * );
+ */
+
+export {
+  createProject,
+  getTemplatesDirectory,
+  planProject,
+  type CreateProjectOptions,
+  type CreateProjectResult,
+  type PlanProjectOptions,
+  type ProjectPlan,
+  type ProjectProgress,
+  type ProjectTemplates,
+} from "./actions.js";
+export { loadCustomTemplate, type CustomTemplate } from "./custom-template.js";
+export {
+  DirectoryConflictError,
+  GenerationCancelledError,
+  GenerationError,
+  VerificationError,
+  WizardError,
+  type ProjectStep,
+} from "./errors.js";
+export {
+  discoverFeaturePlugins,
+  loadFeaturePlugins,
+  FEATURE_PLUGIN_PREFIX,
+  type LoadFeaturePluginsOptions,
+} from "./feature-plugins.js";
+export {
+  getFeatureManifest,
+  resolveFeatures,
+  type Feature,
+  type FeatureContext,
+  type FeatureEnvVariable,
+  type FeatureNextStep,
+} from "./features.js";
+export { NODE_VERSIONS, type NodeVersion } from "./node-versions.js";
+export { PACKAGE_MANAGERS, type PackageManager } from "./package-managers.js";
+export {
+  CONFLICT_STRATEGIES,
+  DEFAULT_CHOICES,
+  DEFAULT_METADATA,
+  LINTERS,
+  MODULE_FORMATS,
+  PROJECT_LAYOUTS,
+  SECURITY_FEATURES,
+  TEST_RUNNERS,
+  TS_STRICTNESS_LEVELS,
+  getProjectNameFromDirectory,
+  validateProjectName,
+  type ConflictStrategy,
+  type Linter,
+  type ModuleFormat,
+  type ProjectLayout,
+  type ProjectMetadata,
+  type SecurityFeature,
+  type TestRunner,
+  type TsStrictness,
+  type UserChoices,
+} from "./prompts.js";
+export {
+  getTemplateDefaults,
+  type ProjectFile,
+  type TemplateContext,
+  type TemplateManifest,
+  type TemplatePrompt,
+  type TemplateVariable,
+} from "./template-engine.js";
+export { verifyProject } from "./verify.js";
@@ -0,0 +1,590 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+import path from "path";
+import type { Feature } from "./features.js";
+import type { UserChoices } from "./prompts.js";
+import type { TemplateContext, TemplateManifest } from "./template-engine.js";
+
+const mockRunPrompts =
+  jest.fn<(presets: Partial<UserChoices>, availableFeatures: readonly Feature[]) => Promise<UserChoices | null>>();
+const mockRunTemplatePrompts = jest.fn<(manifest: TemplateManifest) => Promise<TemplateContext>>();
+
+jest.unstable_mockModule("./prompts.js", () => ({
+  DEFAULT_CHOICES: {
+    projectName: "my-express-app",
+    tsStrictness: "moderate",
+    moduleFormat: "esm",
+    nodeVersion: "22",
+    packageManager: "npm",
+    layout: "minimal",
+    testRunner: "vitest",
+    linter: "eslint-prettier",
+    security: ["helmet", "cors", "rate-limit", "body-limit"],
+    logging: true,
+    openapi: true,
+    docker: false,
+    initGit: true,
+  },
+  TS_STRICTNESS_LEVELS: ["relaxed", "moderate", "strict"],
+  MODULE_FORMATS: ["esm", "cjs"],
+  PROJECT_LAYOUTS: ["minimal", "layered"],
+  TEST_RUNNERS: ["vitest", "jest", "node", "none"],
+  LINTERS: ["eslint-prettier", "biome", "none"],
+  SECURITY_FEATURES: ["helmet", "cors", "rate-limit", "body-limit"],
+  CONFLICT_STRATEGIES: ["abort", "merge", "overwrite"],
+  getProjectNameFromDirectory: (directory: string) => {
+    const name = path.basename(path.resolve(directory));
+    if (!/^[a-z0-9-_]+$/i.test(name)) {
+      throw new Error(`The folder name "${name}" cannot be used as project name`);
+    }
+    return name;
+  },
+  runPrompts: mockRunPrompts,
+  runTemplatePrompts: mockRunTemplatePrompts,
+  validateProjectName: (value: string | undefined) =>
+    value && /^[a-z0-9-_]+$/i.test(value) ? undefined : "Only letters, numbers, hyphens and underscores allowed",
+}));
+
+const ADDABLE_FEATURES = ["docker", "tests", "lint", "logging", "openapi"];
+
+jest.unstable_mockModule("./add-feature.js", () => ({
+  ADDABLE_FEATURES,
+  isAddableFeature: (value: string) => ADDABLE_FEATURES.includes(value),
+}));
+
+jest.unstable_mockModule("./generate-route.js", () => ({
+  validateResourceName: (value: string | undefined) =>
+    value && /^[a-z][a-z0-9-]*$/.test(value) ? undefined : "Use lowercase letters, numbers and hyphens",
+}));
+
+// Import after mocking
+const {
+  parseAddArgs,
+  parseCliArgs,
+  parseGenerateArgs,
+  resolveTemplateValues,
+  resolveUserChoices,
+  ADD_HELP_TEXT,
+  GENERATE_HELP_TEXT,
+  HELP_TEXT,
+} = await import("./cli.js");
+
+describe("parseCliArgs", () => {
+  it("should return empty choices when no flags are given", () => {
+    const result = parseCliArgs([]);
+
+    expect(result).toEqual({
+      choices: {},
+      yes: false,
+      keepOnFailure: false,
+      verify: false,
+      dryRun: false,
+      help: false,
+    });
+  });
+
+  it("should parse all choice flags", () => {
+    const result = parseCliArgs([
+      "--name",
+      "my-api",
+      "--strictness",
+      "strict",
+      "--module-format",
+      "cjs",
+      "--node-version",
+      "24",
+      "--package-manager",
+      "pnpm",
+      "--layout",
+      "layered",
+      "--test-runner",
+      "vitest",
+      "--linter",
+      "biome",
+      "--security",
+      "cors,helmet",
+      "--no-logging",
+      "--openapi",
+      "--docker",
+      "--git",
+    ]);
+
+    expect(result.choices).toEqual({
+      projectName: "my-api",
+      tsStrictness: "strict",
+      moduleFormat: "cjs",
+      nodeVersion: "24",
+      packageManager: "pnpm",
+      layout: "layered",
+      testRunner: "vitest",
+      linter: "biome",
+      security: ["helmet", "cors"],
+      logging: false,
+      openapi: true,
+      docker: true,
+      initGit: true,
+    });
+  });
+
+  it("should parse project metadata flags", () => {
+    const result = parseCliArgs([
+      "--description",
+      "Orders API",
+      "--author",
+      "Jane Doe",
+      "--license",
+      "Apache-2.0",
+      "--port",
+      "8080",
+    ]);
+
+    expect(result.choices).toEqual({
+      description: "Orders API",
+      author: "Jane Doe",
+      license: "Apache-2.0",
+      port: 8080,
+    });
+  });
+
+  it("should reject ports that are not valid TCP ports", () => {
+    for (const port of ["0", "65536", "80.5", "http"]) {
+      expect(() => parseCliArgs(["--port", port])).toThrow(
+        `Invalid value for --port "${port}". Expected an integer between 1 and 65535`
+      );
+    }
+  });
+
+  it("should reject an empty license", () => {
+    expect(() => parseCliArgs(["--license", ""])).toThrow("Invalid value for --license: license cannot be empty");
+  });
+
+  it("should set initGit to false with --no-git", () => {
+    const result = parseCliArgs(["--no-git"]);
+
+    expect(result.choices.initGit).toBe(false);
+  });
+
+  it("should parse --yes and its short alias", () => {
+    expect(parseCliArgs(["--yes"]).yes).toBe(true);
+    expect(parseCliArgs(["-y"]).yes).toBe(true);
+  });
+
+  it("should parse --keep-on-failure", () => {
+    expect(parseCliArgs(["--keep-on-failure"]).keepOnFailure).toBe(true);
+  });
+
+  it("should parse --verify", () => {
+    expect(parseCliArgs(["--verify"]).verify).toBe(true);
+  });
+
+  it("should parse --dry-run", () => {
+    expect(parseCliArgs(["--dry-run"]).dryRun).toBe(true);
+  });
+
+  it("should parse --help and its short alias", () => {
+    expect(parseCliArgs(["--help"]).help).toBe(true);
+    expect(parseCliArgs(["-h"]).help).toBe(true);
+  });
+
+  it("should reject an invalid project name", () => {
+    expect(() => parseCliArgs(["--name", "my app"])).toThrow(
+      'Invalid value for --name "my app": Only letters, numbers, hyphens and underscores allowed'
+    );
+  });
+
+  it("should generate in the current directory with --name .", () => {
+    expect(parseCliArgs(["--name", "."]).choices).toEqual({
+      projectName: path.basename(process.cwd()),
+      directory: ".",
+    });
+  });
+
+  it("should name the project after the folder given with --directory", () => {
+    expect(parseCliArgs(["--directory", "services/orders-api"]).choices).toEqual({
+      projectName: "orders-api",
+      directory: "services/orders-api",
+    });
+    expect(parseCliArgs(["--directory", "services/orders", "--name", "orders-api"]).choices).toEqual({
+      projectName: "orders-api",
+      directory: "services/orders",
+    });
+  });
+
+  it("should reject an invalid target directory", () => {
+    expect(() => parseCliArgs(["--directory", "services/Orders API"])).toThrow(
+      'The folder name "Orders API" cannot be used as project name. Set the name with --name'
+    );
+    expect(() => parseCliArgs(["--directory", ""])).toThrow("Invalid value for --directory: path cannot be empty");
+    expect(() => parseCliArgs(["--name", ".", "--directory", "api"])).toThrow(
+      "--name . and --directory cannot be used together"
+    );
+  });
+
+  it("should parse --on-conflict", () => {
+    expect(parseCliArgs(["--on-conflict", "merge"]).onConflict).toBe("merge");
+    expect(parseCliArgs([]).onConflict).toBeUndefined();
+    expect(() => parseCliArgs(["--on-conflict", "skip"])).toThrow(
+      'Invalid value for --on-conflict "skip". Expected one of: abort, merge, overwrite'
+    );
+  });
+
+  it("should reject an unknown strictness level", () => {
+    expect(() => parseCliArgs(["--strictness", "extreme"])).toThrow(
+      'Invalid value for --strictness "extreme". Expected one of: relaxed, moderate, strict'
+    );
+  });
+
+  it("should reject an unknown module format", () => {
+    expect(() => parseCliArgs(["--module-format", "umd"])).toThrow(
+      'Invalid value for --module-format "umd". Expected one of: esm, cjs'
+    );
+  });
+
+  it("should reject an unsupported Node.js version", () => {
+    expect(() => parseCliArgs(["--node-version", "18"])).toThrow(
+      'Invalid value for --node-version "18". Expected one of: 20, 22, 24'
+    );
+  });
+
+  it("should reject an unknown package manager", () => {
+    expect(() => parseCliArgs(["--package-manager", "deno"])).toThrow(
+      'Invalid value for --package-manager "deno". Expected one of: npm, pnpm, yarn, bun'
+    );
+  });
+
+  it("should reject an unknown project layout", () => {
+    expect(() => parseCliArgs(["--layout", "hexagonal"])).toThrow(
+      'Invalid value for --layout "hexagonal". Expected one of: minimal, layered'
+    );
+  });
+
+  it("should reject an unknown test runner", () => {
+    expect(() => parseCliArgs(["--test-runner", "mocha"])).toThrow(
+      'Invalid value for --test-runner "mocha". Expected one of: vitest, jest, node, none'
+    );
+  });
+
+  it("should reject an unknown linter", () => {
+    expect(() => parseCliArgs(["--linter", "tslint"])).toThrow(
+      'Invalid value for --linter "tslint". Expected one of: eslint-prettier, biome, none'
+    );
+  });
+
+  it("should reject unknown security middleware", () => {
+    expect(() => parseCliArgs(["--security", "helmet,csrf"])).toThrow(
+      'Invalid value for --security "helmet,csrf". Expected a comma-separated list of: helmet, cors, rate-limit, body-limit, or none'
+    );
+  });
+
+  it("should set docker to false with --no-docker", () => {
+    expect(parseCliArgs(["--no-docker"]).choices.docker).toBe(false);
+  });
+
+  it("should reject --git combined with --no-git", () => {
+    expect(() => parseCliArgs(["--git", "--no-git"])).toThrow("--git and --no-git cannot be used together");
+  });
+
+  it("should reject --docker combined with --no-docker", () => {
+    expect(() => parseCliArgs(["--docker", "--no-docker"])).toThrow(
+      "--docker and --no-docker cannot be used together"
+    );
+  });
+
+  it("should set openapi to false with --no-openapi", () => {
+    expect(parseCliArgs(["--no-openapi"]).choices.openapi).toBe(false);
+  });
+
+  it("should parse --template", () => {
+    expect(parseCliArgs(["--template", "https://github.com/acme/service-template.git#v2"]).template).toBe(
+      "https://github.com/acme/service-template.git#v2"
+    );
+    expect(parseCliArgs([]).template).toBeUndefined();
+    expect(() => parseCliArgs(["--template", ""])).toThrow("Invalid value for --template: path or URL cannot be empty");
+  });
+
+  it("should parse --features", () => {
+    expect(parseCliArgs(["--features", "kafka, redis-cache,kafka"]).choices.features).toEqual(["kafka", "redis-cache"]);
+    expect(parseCliArgs(["--features", "none"]).choices.features).toEqual([]);
+    expect(() => parseCliArgs(["--features", "Kafka"])).toThrow(
+      'Invalid value for --features "Kafka". Expected a comma-separated list of feature names, or none'
+    );
+  });
+
+  it("should reject unknown flags", () => {
+    expect(() => parseCliArgs(["--unknown"])).toThrow("Unknown option '--unknown'");
+  });
+});
+
+describe("parseAddArgs", () => {
+  it("should parse the feature and its options", () => {
+    expect(parseAddArgs(["tests", "--test-runner", "jest", "--force"])).toEqual({
+      feature: "tests",
+      testRunner: "jest",
+      force: true,
+      help: false,
+    });
+    expect(parseAddArgs(["lint", "--linter", "biome"])).toEqual({
+      feature: "lint",
+      linter: "biome",
+      force: false,
+      help: false,
+    });
+  });
+
+  it("should allow --help without a feature", () => {
+    expect(parseAddArgs(["--help"])).toEqual({ force: false, help: true });
+  });
+
+  it("should reject a missing or unknown feature", () => {
+    expect(() => parseAddArgs([])).toThrow("Missing feature. Expected one of: docker, tests, lint, logging, openapi");
+    expect(() => parseAddArgs(["graphql"])).toThrow(
+      'Unknown feature "graphql". Expected one of: docker, tests, lint, logging, openapi'
+    );
+  });
+
+  it("should reject more than one feature", () => {
+    expect(() => parseAddArgs(["docker", "tests"])).toThrow(
+      'Unexpected argument "tests". Only one feature can be added at a time'
+    );
+  });
+
+  it("should reject tooling options for other features or set to none", () => {
+    expect(() => parseAddArgs(["docker", "--test-runner", "jest"])).toThrow(
+      '--test-runner can only be used with "add tests"'
+    );
+    expect(() => parseAddArgs(["tests", "--test-runner", "none"])).toThrow(
+      'Invalid value for --test-runner "none". Expected one of: vitest, jest, node'
+    );
+    expect(() => parseAddArgs(["lint", "--linter", "tslint"])).toThrow(
+      'Invalid value for --linter "tslint". Expected one of: eslint-prettier, biome'
+    );
+  });
+});
+
+describe("parseGenerateArgs", () => {
+  it("should parse the generator, resource name and options", () => {
+    expect(parseGenerateArgs(["route", "order-items", "--force"])).toEqual({
+      generator: "route",
+      name: "order-items",
+      force: true,
+      help: false,
+    });
+  });
+
+  it("should allow --help without a generator or name", () => {
+    expect(parseGenerateArgs(["--help"])).toEqual({ force: false, help: true });
+    expect(parseGenerateArgs(["route", "-h"])).toEqual({ generator: "route", force: false, help: true });
+  });
+
+  it("should reject a missing or unknown generator", () => {
+    expect(() => parseGenerateArgs([])).toThrow("Missing generator. Expected one of: route");
+    expect(() => parseGenerateArgs(["model", "users"])).toThrow('Unknown generator "model". Expected one of: route');
+  });
+
+  it("should reject a missing, invalid or extra resource name", () => {
+    expect(() => parseGenerateArgs(["route"])).toThrow(
+      "Missing resource name. Usage: express-ts-wizard generate route <name>"
+    );
+    expect(() => parseGenerateArgs(["route", "OrderItems"])).toThrow('Invalid resource name "OrderItems"');
+    expect(() => parseGenerateArgs(["route", "users", "orders"])).toThrow('Unexpected argument "orders"');
+  });
+});
+
+describe("resolveUserChoices", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return choices without prompting when all flags are given", async () => {
+    const options = parseCliArgs([
+      "--name",
+      "my-api",
+      "--strictness",
+      "relaxed",
+      "--module-format",
+      "esm",
+      "--node-version",
+      "22",
+      "--package-manager",
+      "yarn",
+      "--layout",
+      "minimal",
+      "--test-runner",
+      "vitest",
+      "--linter",
+      "eslint-prettier",
+      "--security",
+      "none",
+      "--logging",
+      "--openapi",
+      "--no-docker",
+      "--no-git",
+    ]);
+
+    const result = await resolveUserChoices(options, false);
+
+    expect(result).toEqual({
+      projectName: "my-api",
+      tsStrictness: "relaxed",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "yarn",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
+      initGit: false,
+    });
+    expect(mockRunPrompts).not.toHaveBeenCalled();
+  });
+
+  it("should fill missing values with defaults when --yes is given", async () => {
+    const options = parseCliArgs(["--yes", "--name", "my-api"]);
+
+    const result = await resolveUserChoices(options, false);
+
+    expect(result).toEqual({
+      projectName: "my-api",
+      tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: ["helmet", "cors", "rate-limit", "body-limit"],
+      logging: true,
+      openapi: true,
+      docker: false,
+      initGit: true,
+    });
+    expect(mockRunPrompts).not.toHaveBeenCalled();
+  });
+
+  it("should prompt only for missing values when interactive", async () => {
+    const expectedChoices: UserChoices = {
+      projectName: "my-api",
+      tsStrictness: "strict",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
+      initGit: true,
+    };
+    mockRunPrompts.mockResolvedValue(expectedChoices);
+
+    const result = await resolveUserChoices(parseCliArgs(["--name", "my-api"]), true);
+
+    expect(result).toEqual(expectedChoices);
+    expect(mockRunPrompts).toHaveBeenCalledWith({ projectName: "my-api" }, []);
+  });
+
+  it("should offer the features of installed plugins in the prompts", async () => {
+    const features: Feature[] = [{ name: "kafka", description: "Consume events from Kafka" }];
+    mockRunPrompts.mockResolvedValue(null);
+
+    await resolveUserChoices(parseCliArgs(["--name", "my-api"]), true, features);
+
+    expect(mockRunPrompts).toHaveBeenCalledWith({ projectName: "my-api" }, features);
+  });
+
+  it("should throw listing missing flags when not interactive", async () => {
+    await expect(resolveUserChoices(parseCliArgs(["--name", "my-api"]), false)).rejects.toThrow(
+      "Missing options in non-interactive mode: --strictness <relaxed|moderate|strict>, --module-format <esm|cjs>, --node-version <20|22|24>, --package-manager <npm|pnpm|yarn|bun>, --layout <minimal|layered>, --test-runner <vitest|jest|node|none>, --linter <eslint-prettier|biome|none>, --security <helmet,cors,rate-limit,body-limit|none>, --logging / --no-logging, --openapi / --no-openapi, --docker / --no-docker, --git / --no-git"
+    );
+    expect(mockRunPrompts).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveTemplateValues", () => {
+  const manifest: TemplateManifest = {
+    variables: { TEAM: { default: "platform" } },
+    prompts: [
+      { type: "text", variable: "TEAM", message: "Which team owns the service?" },
+      { type: "confirm", flag: "KAFKA", message: "Consume events from Kafka?" },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should ask the template prompts when interactive", async () => {
+    const values = { variables: { TEAM: "payments" }, flags: { KAFKA: true } };
+    mockRunTemplatePrompts.mockResolvedValue(values);
+
+    expect(await resolveTemplateValues(manifest, parseCliArgs(["--template", "./service"]), true)).toBe(values);
+    expect(mockRunTemplatePrompts).toHaveBeenCalledWith(manifest);
+  });
+
+  it("should use the defaults with --yes or when not interactive", async () => {
+    const defaults = { variables: { TEAM: "platform" }, flags: { KAFKA: false } };
+
+    expect(await resolveTemplateValues(manifest, parseCliArgs(["--template", "./service", "--yes"]), true)).toEqual(
+      defaults
+    );
+    expect(await resolveTemplateValues(manifest, parseCliArgs(["--template", "./service"]), false)).toEqual(defaults);
+    expect(mockRunTemplatePrompts).not.toHaveBeenCalled();
+  });
+});
+
+describe("HELP_TEXT", () => {
+  it("should document every flag", () => {
+    const flags = [
+      "--name",
+      "--directory",
+      "--on-conflict",
+      "--strictness",
+      "--module-format",
+      "--node-version",
+      "--package-manager",
+      "--layout",
+      "--test-runner",
+      "--linter",
+      "--security",
+      "--logging",
+      "--no-logging",
+      "--openapi",
+      "--no-openapi",
+      "--docker",
+      "--no-docker",
+      "--git",
+      "--no-git",
+      "--description",
+      "--author",
+      "--license",
+      "--port",
+      "--template",
+      "--features",
+      "--yes",
+      "--verify",
+      "--keep-on-failure",
+      "--dry-run",
+      "--help",
+    ];
+    for (const flag of flags) {
+      expect(HELP_TEXT).toContain(flag);
+    }
+  });
+
+  it("should document every feature and flag of the add command", () => {
+    for (const text of ["docker", "tests", "lint", "logging", "openapi", "--test-runner", "--linter", "--force"]) {
+      expect(ADD_HELP_TEXT).toContain(text);
+    }
+  });
+
+  it("should document the generate command", () => {
+    expect(HELP_TEXT).toContain("generate route <name>");
+    for (const text of ["<name>", "--force", "--help"]) {
+      expect(GENERATE_HELP_TEXT).toContain(text);
+    }
+  });
+});
@@ -0,0 +1,666 @@
+import { parseArgs } from "util";
+import {
+  CONFLICT_STRATEGIES,
+  DEFAULT_CHOICES,
+  LINTERS,
+  MODULE_FORMATS,
+  PROJECT_LAYOUTS,
+  SECURITY_FEATURES,
+  TEST_RUNNERS,
+  TS_STRICTNESS_LEVELS,
+  getProjectNameFromDirectory,
+  runPrompts,
+  runTemplatePrompts,
+  validateProjectName,
+  type ConflictStrategy,
+  type Linter,
+  type ModuleFormat,
+  type ProjectLayout,
+  type SecurityFeature,
+  type TestRunner,
+  type TsStrictness,
+  type UserChoices,
+} from "./prompts.js";
+import { ADDABLE_FEATURES, isAddableFeature, type AddableFeature } from "./add-feature.js";
+import { FEATURE_NAME_PATTERN, type Feature } from "./features.js";
+import { validateResourceName } from "./generate-route.js";
+import { NODE_VERSIONS, isNodeVersion } from "./node-versions.js";
+import { PACKAGE_MANAGERS, isPackageManager } from "./package-managers.js";
+import { getTemplateDefaults, type TemplateContext, type TemplateManifest } from "./template-engine.js";
+
+/** Options collected from the command line */
+export interface CliOptions {
+  readonly choices: Partial<UserChoices>;
+  /** Local directory or git URL of a custom template */
+  readonly template?: string;
+  /** What to do with the project files already in the target directory; asked when omitted and interactive */
+  readonly onConflict?: ConflictStrategy;
+  readonly yes: boolean;
+  readonly keepOnFailure: boolean;
+  /** Type-check, build and boot the project after installing it */
+  readonly verify: boolean;
+  readonly dryRun: boolean;
+  readonly help: boolean;
+}
+
+/** Options of the `add` command, collected from the command line */
+export interface AddCommandOptions {
+  /** The feature to add; undefined only with --help */
+  readonly feature?: AddableFeature;
+  readonly testRunner?: Exclude<TestRunner, "none">;
+  readonly linter?: Exclude<Linter, "none">;
+  readonly force: boolean;
+  readonly help: boolean;
+}
+
+/** Options of the `generate` command, collected from the command line */
+export interface GenerateCommandOptions {
+  /** What to generate; undefined only with --help */
+  readonly generator?: Generator;
+  /** Name of the generated resource, e.g. `order-items` */
+  readonly name?: string;
+  readonly force: boolean;
+  readonly help: boolean;
+}
+
+/** Code generators of the `generate` command */
+export type Generator = "route";
+
+/** All generators, in help order */
+export const GENERATORS: readonly Generator[] = ["route"];
+
+/** Keys of the choices that must be known before a project can be generated */
+type RequiredChoiceKey = {
+  [K in keyof UserChoices]-?: undefined extends UserChoices[K] ? never : K;
+}[keyof UserChoices];
+
+/** Command-line flag that provides each required user choice, used in error messages */
+const CHOICE_FLAGS: Record<RequiredChoiceKey, string> = {
+  projectName: "--name <name>",
+  tsStrictness: `--strictness <${TS_STRICTNESS_LEVELS.join("|")}>`,
+  moduleFormat: `--module-format <${MODULE_FORMATS.join("|")}>`,
+  nodeVersion: `--node-version <${NODE_VERSIONS.join("|")}>`,
+  packageManager: `--package-manager <${PACKAGE_MANAGERS.join("|")}>`,
+  layout: `--layout <${PROJECT_LAYOUTS.join("|")}>`,
+  testRunner: `--test-runner <${TEST_RUNNERS.join("|")}>`,
+  linter: `--linter <${LINTERS.join("|")}>`,
+  security: `--security <${SECURITY_FEATURES.join(",")}|none>`,
+  logging: "--logging / --no-logging",
+  openapi: "--openapi / --no-openapi",
+  docker: "--docker / --no-docker",
+  initGit: "--git / --no-git",
+};
+
+/** Usage information printed by --help */
+export const HELP_TEXT = `Usage: express-ts-wizard [options]
+
+Options:
+  --name <name>          Project name, following npm's package-name rules (@scope/name
+                         is generated in a name directory), or . to generate in the
+                         current directory, named after its folder
+  --directory <path>     Directory to generate in (default: the project name); the
+                         project name defaults to its folder name
+  --on-conflict <action> What to do with project files already in the directory:
+                         ${CONFLICT_STRATEGIES.join(", ")}
+                         (default: ask; abort with --yes or without a terminal)
+  --strictness <level>   TypeScript strictness: ${TS_STRICTNESS_LEVELS.join(", ")}
+  --module-format <format>
+                         Module format: ${MODULE_FORMATS.join(", ")} (ES modules or CommonJS)
+  --node-version <major> Node.js version to target: ${NODE_VERSIONS.join(", ")}
+                         (defaults to the one running the wizard)
+  --package-manager <pm> Package manager: ${PACKAGE_MANAGERS.join(", ")}
+                         (defaults to the one running the wizard)
+  --layout <layout>      Project layout: ${PROJECT_LAYOUTS.join(", ")}
+  --test-runner <runner> Test runner: ${TEST_RUNNERS.join(", ")} (node is node:test)
+  --linter <linter>      Lint and format tooling: ${LINTERS.join(", ")}
+  --security <list>      Comma-separated security middleware: ${SECURITY_FEATURES.join(", ")}
+                         (or none)
+  --logging, --no-logging
+                         Add (or skip) structured logging with pino
+  --openapi, --no-openapi
+                         Add (or skip) an OpenAPI document and Swagger UI
+  --docker, --no-docker  Generate (or skip) a Dockerfile and docker-compose.yml
+  --git, --no-git        Initialize (or skip) a Git repository
+  --description <text>   package.json description
+  --author <name>        package.json author
+  --license <spdx>       package.json license (default: MIT)
+  --port <number>        Default server port (default: 3000)
+  --template <path|url>  Generate from a custom template: a local directory or a git
+                         repository URL (append #<ref> for a branch or tag)
+  --features <list>      Comma-separated features of installed plugins
+                         (express-ts-wizard-feature-* packages), or none
+  -y, --yes              Use defaults for every option not given as a flag
+  --verify               Type-check, build and boot the project after installing it,
+                         and probe its health check
+  --keep-on-failure      Keep the partially generated project if generation fails
+  --dry-run              Print the files and commands without writing anything
+  -h, --help             Show this help message
+
+Without flags the wizard asks for every option interactively.
+In a non-interactive terminal, all options must be provided (or use --yes).
+The prompts of a custom template or feature use their defaults with --yes or without a terminal.
+
+Inside a generated project:
+  express-ts-wizard add <feature>        Add a feature, see "add --help"
+  express-ts-wizard generate route <name>
+                                         Scaffold a CRUD resource, see "generate --help"`;
+
+/** Usage information printed by add --help */
+export const ADD_HELP_TEXT = `Usage: express-ts-wizard add <feature> [options]
+
+Adds a feature to the project in the current directory.
+
+Features:
+  docker                 Dockerfile and docker-compose.yml
+  tests                  Test runner, example tests and test script
+  lint                   Lint and format tooling
+  logging                Structured logging with pino
+  openapi                OpenAPI document and Swagger UI
+
+Options:
+  --test-runner <runner> Test runner used by "tests": ${TEST_RUNNERS.filter((runner) => runner !== "none").join(", ")}
+                         (default: vitest)
+  --linter <linter>      Toolchain used by "lint": ${LINTERS.filter((linter) => linter !== "none").join(", ")}
+                         (default: eslint-prettier)
+  --force                Overwrite files you changed since they were generated
+  -h, --help             Show this help message
+
+Files you changed are never overwritten without --force, and package.json entries
+you changed are kept.`;
+
+/** Usage information printed by generate --help */
+export const GENERATE_HELP_TEXT = `Usage: express-ts-wizard generate route <name> [options]
+
+Scaffolds a CRUD resource in the project in the current directory: a typed router with
+list, get, create, update and delete handlers, an in-memory service with request body
+validation, and a test file when the project has tests. The router is registered in
+src/app.ts (minimal layout) or src/routes/index.ts (layered layout).
+
+Arguments:
+  <name>                 Resource name in lowercase kebab-case, also the URL path
+                         (e.g. order-items serves /order-items and /order-items/:id)
+
+Options:
+  --force                Overwrite files of the resource that already exist
+  -h, --help             Show this help message`;
+
+/**
+ * Checks whether a value is a supported TypeScript strictness level.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid strictness level
+ */
+function isTsStrictness(value: string): value is TsStrictness {
+  return (TS_STRICTNESS_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a value is a supported module format.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid module format
+ */
+function isModuleFormat(value: string): value is ModuleFormat {
+  return (MODULE_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a value is a supported project layout.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid layout
+ */
+function isProjectLayout(value: string): value is ProjectLayout {
+  return (PROJECT_LAYOUTS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a value is a supported test runner.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid test runner
+ */
+function isTestRunner(value: string): value is TestRunner {
+  return (TEST_RUNNERS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a value is a supported lint and format toolchain.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid linter
+ */
+function isLinter(value: string): value is Linter {
+  return (LINTERS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a value is a supported conflict strategy.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a valid conflict strategy
+ */
+function isConflictStrategy(value: string): value is ConflictStrategy {
+  return (CONFLICT_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Parses the comma-separated value of --security.
+ * @param {string} value - The flag value, e.g. `helmet,cors` or `none`
+ * @returns {SecurityFeature[]} The selected security middleware, without duplicates
+ * @throws {Error} If the list contains an unknown middleware
+ */
+function parseSecurityFeatures(value: string): SecurityFeature[] {
+  if (value === "none") {
+    return [];
+  }
+
+  const features = value.split(",").map((feature) => feature.trim());
+  if (!features.every((feature) => (SECURITY_FEATURES as readonly string[]).includes(feature))) {
+    throw new Error(
+      `Invalid value for --security "${value}". Expected a comma-separated list of: ${SECURITY_FEATURES.join(", ")}, or none`
+    );
+  }
+  return SECURITY_FEATURES.filter((feature) => features.includes(feature));
+}
+
+/**
+ * Parses the comma-separated value of --features.
+ * The names are checked against the installed plugins once they are loaded.
+ * @param {string} value - The flag value, e.g. `kafka,redis` or `none`
+ * @returns {string[]} The feature names, without duplicates
+ * @throws {Error} If a name is not in lowercase kebab-case
+ */
+function parseFeatureNames(value: string): string[] {
+  if (value === "none") {
+    return [];
+  }
+
+  const names = value.split(",").map((name) => name.trim());
+  if (!names.every((name) => FEATURE_NAME_PATTERN.test(name))) {
+    throw new Error(
+      `Invalid value for --features "${value}". Expected a comma-separated list of feature names, or none`
+    );
+  }
+  return [...new Set(names)];
+}
+
+/**
+ * Resolves a pair of `--<name>` / `--no-<name>` boolean flags.
+ * @param {string} name - Flag name without dashes
+ * @param {boolean | undefined} enabled - Value of `--<name>`
+ * @param {boolean | undefined} disabled - Value of `--no-<name>`
+ * @returns {boolean | undefined} The resulting value, or undefined if neither flag was given
+ * @throws {Error} If both flags are given
+ */
+function parseToggle(name: string, enabled: boolean | undefined, disabled: boolean | undefined): boolean | undefined {
+  if (enabled && disabled) {
+    throw new Error(`--${name} and --no-${name} cannot be used together`);
+  }
+  return enabled || disabled ? Boolean(enabled) : undefined;
+}
+
+/**
+ * Parses command-line arguments into partial user choices and CLI flags.
+ * @param {readonly string[]} argv - Arguments without the node executable and script path
+ * @returns {CliOptions} The parsed options
+ * @throws {Error} If a flag is unknown or a value is invalid
+ */
+export function parseCliArgs(argv: readonly string[]): CliOptions {
+  const { values } = parseArgs({
+    args: [...argv],
+    options: {
+      name: { type: "string" },
+      directory: { type: "string" },
+      "on-conflict": { type: "string" },
+      strictness: { type: "string" },
+      "module-format": { type: "string" },
+      "node-version": { type: "string" },
+      "package-manager": { type: "string" },
+      layout: { type: "string" },
+      "test-runner": { type: "string" },
+      linter: { type: "string" },
+      security: { type: "string" },
+      logging: { type: "boolean" },
+      "no-logging": { type: "boolean" },
+      openapi: { type: "boolean" },
+      "no-openapi": { type: "boolean" },
+      docker: { type: "boolean" },
+      "no-docker": { type: "boolean" },
+      git: { type: "boolean" },
+      "no-git": { type: "boolean" },
+      description: { type: "string" },
+      author: { type: "string" },
+      license: { type: "string" },
+      port: { type: "string" },
+      template: { type: "string" },
+      features: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+      verify: { type: "boolean" },
+      "keep-on-failure": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    strict: true,
+  });
+
+  const choices: { -readonly [K in keyof UserChoices]?: UserChoices[K] } = {};
+
+  if (values.name === "." && values.directory !== undefined) {
+    throw new Error("--name . and --directory cannot be used together");
+  }
+  const directory = values.name === "." ? "." : values.directory;
+  if (directory !== undefined) {
+    if (!directory) {
+      throw new Error("Invalid value for --directory: path cannot be empty");
+    }
+    choices.directory = directory;
+  }
+
+  if (values.name !== undefined && values.name !== ".") {
+    const nameError = validateProjectName(values.name);
+    if (nameError) {
+      throw new Error(`Invalid value for --name "${values.name}": ${nameError}`);
+    }
+    choices.projectName = values.name;
+  } else if (directory !== undefined) {
+    try {
+      choices.projectName = getProjectNameFromDirectory(directory);
+    } catch (error) {
+      throw new Error(`${error instanceof Error ? error.message : String(error)}. Set the name with --name`);
+    }
+  }
+
+  const onConflict = values["on-conflict"];
+  if (onConflict !== undefined && !isConflictStrategy(onConflict)) {
+    throw new Error(
+      `Invalid value for --on-conflict "${onConflict}". Expected one of: ${CONFLICT_STRATEGIES.join(", ")}`
+    );
+  }
+
+  if (values.strictness !== undefined) {
+    if (!isTsStrictness(values.strictness)) {
+      throw new Error(
+        `Invalid value for --strictness "${values.strictness}". Expected one of: ${TS_STRICTNESS_LEVELS.join(", ")}`
+      );
+    }
+    choices.tsStrictness = values.strictness;
+  }
+
+  const moduleFormat = values["module-format"];
+  if (moduleFormat !== undefined) {
+    if (!isModuleFormat(moduleFormat)) {
+      throw new Error(
+        `Invalid value for --module-format "${moduleFormat}". Expected one of: ${MODULE_FORMATS.join(", ")}`
+      );
+    }
+    choices.moduleFormat = moduleFormat;
+  }
+
+  const nodeVersion = values["node-version"];
+  if (nodeVersion !== undefined) {
+    if (!isNodeVersion(nodeVersion)) {
+      throw new Error(
+        `Invalid value for --node-version "${nodeVersion}". Expected one of: ${NODE_VERSIONS.join(", ")}`
+      );
+    }
+    choices.nodeVersion = nodeVersion;
+  }
+
+  const packageManager = values["package-manager"];
+  if (packageManager !== undefined) {
+    if (!isPackageManager(packageManager)) {
+      throw new Error(
+        `Invalid value for --package-manager "${packageManager}". Expected one of: ${PACKAGE_MANAGERS.join(", ")}`
+      );
+    }
+    choices.packageManager = packageManager;
+  }
+
+  if (values.layout !== undefined) {
+    if (!isProjectLayout(values.layout)) {
+      throw new Error(`Invalid value for --layout "${values.layout}". Expected one of: ${PROJECT_LAYOUTS.join(", ")}`);
+    }
+    choices.layout = values.layout;
+  }
+
+  const testRunner = values["test-runner"];
+  if (testRunner !== undefined) {
+    if (!isTestRunner(testRunner)) {
+      throw new Error(`Invalid value for --test-runner "${testRunner}". Expected one of: ${TEST_RUNNERS.join(", ")}`);
+    }
+    choices.testRunner = testRunner;
+  }
+
+  if (values.linter !== undefined) {
+    if (!isLinter(values.linter)) {
+      throw new Error(`Invalid value for --linter "${values.linter}". Expected one of: ${LINTERS.join(", ")}`);
+    }
+    choices.linter = values.linter;
+  }
+
+  if (values.security !== undefined) {
+    choices.security = parseSecurityFeatures(values.security);
+  }
+
+  const logging = parseToggle("logging", values.logging, values["no-logging"]);
+  if (logging !== undefined) {
+    choices.logging = logging;
+  }
+
+  const openapi = parseToggle("openapi", values.openapi, values["no-openapi"]);
+  if (openapi !== undefined) {
+    choices.openapi = openapi;
+  }
+
+  const docker = parseToggle("docker", values.docker, values["no-docker"]);
+  if (docker !== undefined) {
+    choices.docker = docker;
+  }
+
+  const initGit = parseToggle("git", values.git, values["no-git"]);
+  if (initGit !== undefined) {
+    choices.initGit = initGit;
+  }
+
+  if (values.description !== undefined) {
+    choices.description = values.description;
+  }
+  if (values.author !== undefined) {
+    choices.author = values.author;
+  }
+  if (values.license !== undefined) {
+    if (!values.license) {
+      throw new Error("Invalid value for --license: license cannot be empty");
+    }
+    choices.license = values.license;
+  }
+
+  if (values.port !== undefined) {
+    const port = Number(values.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid value for --port "${values.port}". Expected an integer between 1 and 65535`);
+    }
+    choices.port = port;
+  }
+
+  if (values.features !== undefined) {
+    choices.features = parseFeatureNames(values.features);
+  }
+
+  if (values.template !== undefined && !values.template) {
+    throw new Error("Invalid value for --template: path or URL cannot be empty");
+  }
+
+  return {
+    choices,
+    ...(values.template !== undefined && { template: values.template }),
+    ...(onConflict !== undefined && { onConflict }),
+    yes: Boolean(values.yes),
+    keepOnFailure: Boolean(values["keep-on-failure"]),
+    verify: Boolean(values.verify),
+    dryRun: Boolean(values["dry-run"]),
+    help: Boolean(values.help),
+  };
+}
+
+/**
+ * Parses the arguments of the `add` command.
+ * @param {readonly string[]} argv - Arguments after `add`
+ * @returns {AddCommandOptions} The parsed options
+ * @throws {Error} If the feature is missing or unknown, or a flag is unknown or invalid
+ */
+export function parseAddArgs(argv: readonly string[]): AddCommandOptions {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    options: {
+      "test-runner": { type: "string" },
+      linter: { type: "string" },
+      force: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const help = Boolean(values.help);
+  const [feature, ...extraArguments] = positionals;
+  if (extraArguments.length > 0) {
+    throw new Error(`Unexpected argument "${extraArguments[0]}". Only one feature can be added at a time`);
+  }
+  if (feature === undefined) {
+    if (help) {
+      return { force: false, help };
+    }
+    throw new Error(`Missing feature. Expected one of: ${ADDABLE_FEATURES.join(", ")}`);
+  }
+  if (!isAddableFeature(feature)) {
+    throw new Error(`Unknown feature "${feature}". Expected one of: ${ADDABLE_FEATURES.join(", ")}`);
+  }
+
+  const testRunner = values["test-runner"];
+  if (testRunner !== undefined && feature !== "tests") {
+    throw new Error('--test-runner can only be used with "add tests"');
+  }
+  if (testRunner !== undefined && (!isTestRunner(testRunner) || testRunner === "none")) {
+    throw new Error(
+      `Invalid value for --test-runner "${testRunner}". Expected one of: ${TEST_RUNNERS.filter((runner) => runner !== "none").join(", ")}`
+    );
+  }
+
+  const { linter } = values;
+  if (linter !== undefined && feature !== "lint") {
+    throw new Error('--linter can only be used with "add lint"');
+  }
+  if (linter !== undefined && (!isLinter(linter) || linter === "none")) {
+    throw new Error(
+      `Invalid value for --linter "${linter}". Expected one of: ${LINTERS.filter((value) => value !== "none").join(", ")}`
+    );
+  }
+
+  return {
+    feature,
+    ...(testRunner !== undefined && { testRunner }),
+    ...(linter !== undefined && { linter }),
+    force: Boolean(values.force),
+    help,
+  };
+}
+
+/**
+ * Parses the arguments of the `generate` command.
+ * @param {readonly string[]} argv - Arguments after `generate`
+ * @returns {GenerateCommandOptions} The parsed options
+ * @throws {Error} If the generator or name is missing or invalid, or a flag is unknown
+ */
+export function parseGenerateArgs(argv: readonly string[]): GenerateCommandOptions {
+  const { values, positionals } = parseArgs({
+    args: [...argv],
+    options: {
+      force: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const help = Boolean(values.help);
+  const [generator, name, ...extraArguments] = positionals;
+  if (extraArguments.length > 0) {
+    throw new Error(`Unexpected argument "${extraArguments[0]}"`);
+  }
+  if (generator === undefined && help) {
+    return { force: false, help };
+  }
+  if (generator !== "route") {
+    throw new Error(
+      generator === undefined
+        ? `Missing generator. Expected one of: ${GENERATORS.join(", ")}`
+        : `Unknown generator "${generator}". Expected one of: ${GENERATORS.join(", ")}`
+    );
+  }
+  if (name === undefined) {
+    if (help) {
+      return { generator, force: false, help };
+    }
+    throw new Error("Missing resource name. Usage: express-ts-wizard generate route <name>");
+  }
+
+  const nameError = validateResourceName(name);
+  if (nameError) {
+    throw new Error(`Invalid resource name "${name}": ${nameError}`);
+  }
+
+  return { generator, name, force: Boolean(values.force), help };
+}
+
+/**
+ * Resolves the final user choices from command-line options.
+ * Missing values are filled with defaults when --yes is given, asked interactively
+ * when running in a TTY, or reported as an error otherwise.
+ * @param {CliOptions} options - Options parsed from the command line
+ * @param {boolean} isInteractive - Whether the wizard can prompt the user
+ * @param {readonly Feature[]} availableFeatures - Features of the installed plugins, offered in the prompts
+ * @returns {Promise<UserChoices | null>} The resolved choices, or null if the user cancelled
+ * @throws {Error} If values are missing and the wizard cannot prompt for them
+ */
+export async function resolveUserChoices(
+  options: CliOptions,
+  isInteractive: boolean,
+  availableFeatures: readonly Feature[] = []
+): Promise<UserChoices | null> {
+  const presets: Partial<UserChoices> = options.yes
+    ? { ...DEFAULT_CHOICES, ...options.choices }
+    : options.choices;
+
+  const missingKeys = (Object.keys(CHOICE_FLAGS) as RequiredChoiceKey[]).filter(
+    (key) => presets[key] === undefined
+  );
+
+  if (missingKeys.length === 0) {
+    return presets as UserChoices;
+  }
+
+  if (!isInteractive) {
+    const missingFlags = missingKeys.map((key) => CHOICE_FLAGS[key]).join(", ");
+    throw new Error(
+      `Missing options in non-interactive mode: ${missingFlags}. Pass them as flags or use --yes to accept defaults.`
+    );
+  }
+
+  return runPrompts(presets, availableFeatures);
+}
+
+/**
+ * Resolves the values of the variables and flags declared by a custom template.
+ * The template's prompts are asked when running interactively without --yes; otherwise
+ * every value is its default.
+ * @param {TemplateManifest} manifest - The validated manifest of the template
+ * @param {CliOptions} options - Options parsed from the command line
+ * @param {boolean} isInteractive - Whether the wizard can prompt the user
+ * @returns {Promise<TemplateContext>} The values of the template's variables and flags
+ */
+export async function resolveTemplateValues(
+  manifest: TemplateManifest,
+  options: CliOptions,
+  isInteractive: boolean
+): Promise<TemplateContext> {
+  if (options.yes || !isInteractive || !manifest.prompts?.length) {
+    return getTemplateDefaults(manifest);
+  }
+  return runTemplatePrompts(manifest);
+}
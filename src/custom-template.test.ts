@@ -0,0 +1,202 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import type { UserChoices } from "./prompts.js";
+
+const mockExeca = jest.fn<(command: string, args: readonly string[]) => Promise<{ stdout: string; stderr: string }>>();
+jest.unstable_mockModule("execa", () => ({
+  execa: mockExeca,
+}));
+
+// Import after mocking
+const { buildTemplateContext, getTemplatesDirectory, planProject } = await import("./actions.js");
+const { isGitUrl, loadCustomTemplate, validateTemplateManifest } = await import("./custom-template.js");
+
+const choices: UserChoices = {
+  projectName: "orders-api",
+  tsStrictness: "moderate",
+  moduleFormat: "esm",
+  nodeVersion: "22",
+  packageManager: "npm",
+  layout: "minimal",
+  testRunner: "none",
+  linter: "none",
+  security: [],
+  logging: false,
+  openapi: false,
+  docker: false,
+  initGit: false,
+};
+
+const builtInContext = buildTemplateContext(choices);
+
+const manifest = {
+  files: { "Dockerfile": "DOCKER", "src/kafka.ts": "KAFKA" },
+  variables: {
+    TEAM: { description: "Team that owns the service", default: "platform" },
+    TIER: { default: "internal" },
+  },
+  prompts: [
+    { type: "text", variable: "TEAM", message: "Which team owns the service?" },
+    { type: "select", variable: "TIER", message: "Which tier?", options: ["internal", "public"] },
+    { type: "confirm", flag: "KAFKA", message: "Consume events from Kafka?" },
+  ],
+};
+
+describe("isGitUrl", () => {
+  it("should recognize git URLs and treat everything else as a path", () => {
+    for (const source of [
+      "https://github.com/acme/template.git",
+      "git+https://github.com/acme/template.git#v2",
+      "ssh://git@github.com/acme/template.git",
+      "git@github.com:acme/template.git",
+      "file:///srv/templates/service.git",
+    ]) {
+      expect(isGitUrl(source)).toBe(true);
+    }
+    for (const source of ["./templates/service", "/srv/templates/service", "template.git", "C:\\templates"]) {
+      expect(isGitUrl(source)).toBe(false);
+    }
+  });
+});
+
+describe("validateTemplateManifest", () => {
+  it("should accept a manifest with variables, prompts and file conditions on their flags", () => {
+    expect(validateTemplateManifest(manifest, builtInContext)).toBe(manifest);
+    expect(validateTemplateManifest({}, builtInContext)).toEqual({});
+  });
+
+  it("should reject a manifest that is not an object", () => {
+    expect(() => validateTemplateManifest([], builtInContext)).toThrow("Invalid template.json: expected a JSON object");
+  });
+
+  it("should list every problem", () => {
+    const invalidManifest = {
+      name: "service",
+      files: { "src/kafka.ts": "!KAFKA", "src/queue.ts": "QUEUE", "src/cache.ts": true },
+      variables: { PORT: { default: "8080" }, team: { default: "platform" }, TIER: { default: 1 } },
+      prompts: [
+        { type: "text", variable: "OWNER", message: "Who owns the service?" },
+        { type: "select", variable: "PORT", message: "Which port?", options: ["3000", "4000"] },
+        { type: "confirm", flag: "DOCKER", message: "Docker?" },
+        { type: "confirm", flag: "KAFKA", message: "", default: "yes" },
+        { type: "checkbox", message: "Which queues?" },
+        "QUEUE",
+      ],
+    };
+
+    expect(() => validateTemplateManifest(invalidManifest, builtInContext)).toThrow(
+      [
+        "Invalid template.json:",
+        '  - Unknown key "name". Expected one of: files, variables, prompts',
+        '  - Variable "PORT" is built in and cannot be declared',
+        '  - Variable "team" must use uppercase letters, numbers and underscores, starting with a letter',
+        '  - Variable "TIER" needs a string "default"',
+        '  - Prompt 1 must set a variable declared in "variables"',
+        '  - The default of variable "PORT" must be one of the options of Prompt 2',
+        '  - Flag "DOCKER" of Prompt 3 is built in and cannot be set by a prompt',
+        '  - Prompt 4 needs a "message"',
+        '  - The "default" of Prompt 4 must be true or false',
+        '  - Prompt 5 has an unknown type "checkbox". Expected one of: text, select, confirm',
+        "  - Prompt 6 must be an object",
+        '  - The condition of "src/queue.ts" uses the unknown flag "QUEUE"',
+        '  - The condition of "src/cache.ts" must be a string',
+      ].join("\n")
+    );
+  });
+});
+
+describe("loadCustomTemplate", () => {
+  let templatePath: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    templatePath = await fs.mkdtemp(path.join(os.tmpdir(), "custom-template-"));
+    await fs.copy(path.join(getTemplatesDirectory(), "tsconfig"), path.join(templatePath, "tsconfig"));
+    await fs.outputFile(path.join(templatePath, "base/package.template.json"), '{ "name": "{{PROJECT_NAME}}" }\n');
+    await fs.outputFile(path.join(templatePath, "base/OWNERS"), "{{TEAM}} ({{TIER}})\n");
+    await fs.outputFile(
+      path.join(templatePath, "base/src/index.ts"),
+      '// {{#if KAFKA}}\nimport "./kafka.js";\n// {{/if}}\nconsole.log("{{PROJECT_NAME}}");\n'
+    );
+    await fs.outputFile(path.join(templatePath, "base/src/kafka.ts"), "export {};\n");
+    await fs.outputJson(path.join(templatePath, "template.json"), manifest);
+  });
+
+  afterEach(async () => {
+    await fs.remove(templatePath);
+  });
+
+  it("should load a local template without running git", async () => {
+    const template = await loadCustomTemplate(templatePath);
+
+    expect(template).toEqual({ source: templatePath, directory: templatePath, manifest });
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("should render the template with the values of its variables and flags", async () => {
+    const template = await loadCustomTemplate(templatePath);
+
+    const plan = await planProject(choices, {
+      directory: template.directory,
+      values: { variables: { TEAM: "payments", TIER: "public" }, flags: { KAFKA: true } },
+    });
+
+    expect(plan.files.map((file) => [file.relativePath, file.content])).toEqual([
+      ["OWNERS", "payments (public)\n"],
+      ["package.json", '{ "name": "orders-api" }\n'],
+      ["src/index.ts", 'import "./kafka.js";\nconsole.log("orders-api");\n'],
+      ["src/kafka.ts", "export {};\n"],
+      ["tsconfig.json", expect.stringContaining('"strict": true')],
+    ]);
+  });
+
+  it("should report missing template files", async () => {
+    await fs.remove(path.join(templatePath, "tsconfig/strict.json"));
+    await fs.remove(path.join(templatePath, "template.json"));
+
+    await expect(loadCustomTemplate(templatePath)).rejects.toThrow(
+      `Template ${templatePath} is missing tsconfig/strict.json, template.json.`
+    );
+    await expect(loadCustomTemplate(path.join(templatePath, "missing"))).rejects.toThrow(
+      `Template directory not found: ${path.join(templatePath, "missing")}`
+    );
+  });
+
+  it("should reject a template with an invalid manifest", async () => {
+    await fs.outputFile(path.join(templatePath, "template.json"), "{ files: {} }");
+    await expect(loadCustomTemplate(templatePath)).rejects.toThrow(
+      `Could not read template.json of template ${templatePath}:`
+    );
+
+    await fs.outputJson(path.join(templatePath, "template.json"), { prompts: {} });
+    await expect(loadCustomTemplate(templatePath)).rejects.toThrow('Invalid template.json:\n  - "prompts" must be an array');
+  });
+
+  it("should shallow-clone git repositories at the requested ref", async () => {
+    mockExeca.mockImplementation(async (_command, args) => {
+      await fs.copy(templatePath, args[args.length - 1]);
+      return { stdout: "", stderr: "" };
+    });
+
+    const template = await loadCustomTemplate("git+https://github.com/acme/service-template.git#v2");
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["clone", "--depth", "1", "--branch", "v2", "--", "https://github.com/acme/service-template.git", template.directory],
+      { stdio: "pipe" }
+    );
+    expect(template.directory).toContain(path.join(os.tmpdir(), "express-ts-wizard-template-"));
+    expect(template.manifest).toEqual(manifest);
+    await fs.remove(template.directory);
+  });
+
+  it("should report when cloning fails", async () => {
+    mockExeca.mockRejectedValue(new Error("Repository not found"));
+
+    await expect(loadCustomTemplate("git@github.com:acme/missing.git")).rejects.toThrow(
+      "Could not clone template git@github.com:acme/missing.git: Repository not found"
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { execa } from "execa";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { buildTemplateContext } from "./actions.js";
+import { DEFAULT_CHOICES, TS_STRICTNESS_LEVELS } from "./prompts.js";
+import { MANIFEST_FILE_NAME, type TemplateContext, type TemplateManifest } from "./template-engine.js";
+
+/** A template loaded with --template, ready to be rendered like the bundled one */
+export interface CustomTemplate {
+  /** Path or git URL given on the command line */
+  readonly source: string;
+  /** Local directory holding `base/`, `tsconfig/` and `template.json`; a temporary clone for git URLs */
+  readonly directory: string;
+  /** The validated manifest */
+  readonly manifest: TemplateManifest;
+}
+
+// git+https://, https://, ssh://, git://, file:// and scp-like git@host:path URLs
+const GIT_URL_PATTERN = /^(?:git\+)?(?:https?|ssh|git|file):\/\/|^git@[\w.-]+:/;
+
+// Same syntax as template variables, so declared names can be used as {{NAME}}
+const NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const MANIFEST_KEYS: readonly string[] = ["files", "variables", "prompts"];
+
+/**
+ * Checks whether a --template value refers to a git repository rather than a local directory.
+ * @param {string} source - The value of --template
+ * @returns {boolean} True for git URLs such as `https://github.com/acme/template.git` or `git@github.com:acme/template.git`
+ */
+export function isGitUrl(source: string): boolean {
+  return GIT_URL_PATTERN.test(source);
+}
+
+/**
+ * Checks whether a parsed JSON value is a plain object.
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True for objects that are not arrays or null
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Shallow-clones a template repository into a temporary directory, removed when the process exits.
+ * A `#ref` suffix selects a branch or tag, e.g. `https://github.com/acme/template.git#v2`.
+ * @param {string} source - The git URL, optionally with a `git+` prefix and a `#ref` suffix
+ * @returns {Promise<string>} The directory of the clone
+ * @throws {Error} If git fails, e.g. because the repository or ref does not exist
+ */
+async function cloneTemplate(source: string): Promise<string> {
+  const hashIndex = source.lastIndexOf("#");
+  const url = (hashIndex < 0 ? source : source.slice(0, hashIndex)).replace(/^git\+/, "");
+  const ref = hashIndex < 0 ? undefined : source.slice(hashIndex + 1);
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "express-ts-wizard-template-"));
+  process.once("exit", () => fs.removeSync(directory));
+
+  try {
+    await execa("git", ["clone", "--depth", "1", ...(ref ? ["--branch", ref] : []), "--", url, directory], {
+      stdio: "pipe",
+    });
+  } catch (error) {
+    await fs.remove(directory);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not clone template ${source}: ${message}`);
+  }
+  return directory;
+}
+
+/** Problems found in the variables and prompts declared by a custom template or a feature */
+export interface DeclarationCheck {
+  readonly problems: readonly string[];
+  /** Flags set by the confirm prompts */
+  readonly promptFlags: readonly string[];
+}
+
+/**
+ * Checks the variables and prompts declared by a custom template or a feature.
+ * Variables and flags must not shadow the built-in ones, and prompts must set declared
+ * variables (text and select) or new flags (confirm).
+ * @param {unknown} variables - The declared variables
+ * @param {unknown} prompts - The declared prompts
+ * @param {TemplateContext} builtInContext - Context with the built-in variables and flags
+ * @returns {DeclarationCheck} The problems found, and the flags set by the prompts
+ */
+export function checkDeclarations(
+  variables: unknown,
+  prompts: unknown,
+  builtInContext: TemplateContext
+): DeclarationCheck {
+  const problems: string[] = [];
+  const declaredVariables = isRecord(variables) ? variables : {};
+  if (!isRecord(variables)) {
+    problems.push('"variables" must be an object');
+  }
+  for (const [name, variable] of Object.entries(declaredVariables)) {
+    if (!NAME_PATTERN.test(name)) {
+      problems.push(`Variable "${name}" must use uppercase letters, numbers and underscores, starting with a letter`);
+    } else if (Object.hasOwn(builtInContext.variables, name)) {
+      problems.push(`Variable "${name}" is built in and cannot be declared`);
+    }
+    if (!isRecord(variable) || typeof variable.default !== "string") {
+      problems.push(`Variable "${name}" needs a string "default"`);
+    } else if (variable.description !== undefined && typeof variable.description !== "string") {
+      problems.push(`The "description" of variable "${name}" must be a string`);
+    }
+  }
+
+  const promptedVariables: string[] = [];
+  const promptFlags: string[] = [];
+  if (!Array.isArray(prompts)) {
+    problems.push('"prompts" must be an array');
+  }
+  (Array.isArray(prompts) ? (prompts as unknown[]) : []).forEach((prompt, index) => {
+    const label = `Prompt ${index + 1}`;
+    if (!isRecord(prompt)) {
+      problems.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof prompt.message !== "string" || !prompt.message) {
+      problems.push(`${label} needs a "message"`);
+    }
+
+    if (prompt.type === "confirm") {
+      const { flag } = prompt;
+      if (typeof flag !== "string" || !NAME_PATTERN.test(flag)) {
+        problems.push(`${label} needs a "flag" of uppercase letters, numbers and underscores, starting with a letter`);
+      } else if (Object.hasOwn(builtInContext.flags, flag)) {
+        problems.push(`Flag "${flag}" of ${label} is built in and cannot be set by a prompt`);
+      } else if (Object.hasOwn(declaredVariables, flag) || promptFlags.includes(flag)) {
+        problems.push(`Flag "${flag}" of ${label} is already used by another prompt or variable`);
+      } else {
+        promptFlags.push(flag);
+      }
+      if (prompt.default !== undefined && typeof prompt.default !== "boolean") {
+        problems.push(`The "default" of ${label} must be true or false`);
+      }
+      return;
+    }
+
+    if (prompt.type !== "text" && prompt.type !== "select") {
+      problems.push(`${label} has an unknown type "${String(prompt.type)}". Expected one of: text, select, confirm`);
+      return;
+    }
+
+    const { variable, options } = prompt;
+    const declaration =
+      typeof variable === "string" && Object.hasOwn(declaredVariables, variable) ? declaredVariables[variable] : undefined;
+    if (typeof variable !== "string" || declaration === undefined) {
+      problems.push(`${label} must set a variable declared in "variables"`);
+    } else if (promptedVariables.includes(variable)) {
+      problems.push(`Variable "${variable}" is set by more than one prompt`);
+    } else {
+      promptedVariables.push(variable);
+    }
+    if (prompt.type === "select") {
+      if (!Array.isArray(options) || options.length === 0 || !options.every((option) => typeof option === "string")) {
+        problems.push(`${label} needs a non-empty list of "options"`);
+      } else if (isRecord(declaration) && !(options as unknown[]).includes(declaration.default)) {
+        problems.push(`The default of variable "${String(variable)}" must be one of the options of ${label}`);
+      }
+    }
+  });
+
+  return { problems, promptFlags };
+}
+
+/**
+ * Validates the manifest of a custom template.
+ * Its variables and prompts are checked with {@link checkDeclarations}, and file conditions
+ * must use built-in flags or flags set by its prompts.
+ * @param {unknown} value - The parsed content of `template.json`
+ * @param {TemplateContext} builtInContext - Context with the built-in variables and flags
+ * @returns {TemplateManifest} The manifest
+ * @throws {Error} Listing every problem found in the manifest
+ */
+export function validateTemplateManifest(value: unknown, builtInContext: TemplateContext): TemplateManifest {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid ${MANIFEST_FILE_NAME}: expected a JSON object`);
+  }
+
+  const problems: string[] = Object.keys(value)
+    .filter((key) => !MANIFEST_KEYS.includes(key))
+    .map((key) => `Unknown key "${key}". Expected one of: ${MANIFEST_KEYS.join(", ")}`);
+
+  const declarations = checkDeclarations(value.variables ?? {}, value.prompts ?? [], builtInContext);
+  problems.push(...declarations.problems);
+
+  const files = value.files ?? {};
+  if (!isRecord(files)) {
+    problems.push('"files" must be an object');
+  }
+  for (const [filePath, condition] of Object.entries(isRecord(files) ? files : {})) {
+    const flag = typeof condition === "string" ? condition.replace(/^!/, "") : undefined;
+    if (flag === undefined) {
+      problems.push(`The condition of "${filePath}" must be a string`);
+    } else if (!Object.hasOwn(builtInContext.flags, flag) && !declarations.promptFlags.includes(flag)) {
+      problems.push(`The condition of "${filePath}" uses the unknown flag "${flag}"`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${MANIFEST_FILE_NAME}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return value as TemplateManifest;
+}
+
+/**
+ * Loads a custom template from a local directory or a git repository.
+ * The template has the layout of the bundled templates: a `base/` directory, one
+ * `tsconfig/<strictness>.json` preset per strictness level and a `template.json` manifest,
+ * which is validated before anything is rendered. Local directories are used in place, so
+ * they work offline; git repositories are cloned into a temporary directory.
+ * @param {string} source - A directory path, relative to the current directory, or a git URL
+ * @returns {Promise<CustomTemplate>} The template directory and its manifest
+ * @throws {Error} If the template cannot be found or cloned, files are missing or the manifest is invalid
+ */
+export async function loadCustomTemplate(source: string): Promise<CustomTemplate> {
+  const directory = isGitUrl(source) ? await cloneTemplate(source) : path.resolve(process.cwd(), source);
+  if (!fs.existsSync(directory) || !(await fs.stat(directory)).isDirectory()) {
+    throw new Error(`Template directory not found: ${directory}`);
+  }
+
+  const requiredPaths = [
+    "base",
+    ...TS_STRICTNESS_LEVELS.map((level) => `tsconfig/${level}.json`),
+    MANIFEST_FILE_NAME,
+  ];
+  const missingPaths = requiredPaths.filter((requiredPath) => !fs.existsSync(path.join(directory, requiredPath)));
+  if (missingPaths.length > 0) {
+    throw new Error(
+      `Template ${source} is missing ${missingPaths.join(", ")}. Templates need a base/ directory, a tsconfig/<strictness>.json preset per strictness level and a ${MANIFEST_FILE_NAME} manifest.`
+    );
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(directory, MANIFEST_FILE_NAME), "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${MANIFEST_FILE_NAME} of template ${source}: ${message}`);
+  }
+
+  return {
+    source,
+    directory,
+    manifest: validateTemplateManifest(manifest, buildTemplateContext(DEFAULT_CHOICES)),
+  };
+}
@@ -0,0 +1,304 @@
+import { describe, it, expect } from "@jest/globals";
+import { planProject } from "./actions.js";
+import { formatCommand, formatFileTree, formatProjectPlan } from "./dry-run.js";
+import type { UserChoices } from "./prompts.js";
+
+describe("formatFileTree", () => {
+  it("should list directories first and sort entries alphabetically", () => {
+    const tree = formatFileTree("my-app", ["package.json", "src/index.ts", ".gitignore", "src/app.ts"]);
+
+    expect(tree).toBe(
+      ["my-app/", "├── src/", "│   ├── app.ts", "│   └── index.ts", "├── .gitignore", "└── package.json"].join("\n")
+    );
+  });
+
+  it("should render only the root for an empty file list", () => {
+    expect(formatFileTree("my-app", [])).toBe("my-app/");
+  });
+});
+
+describe("formatCommand", () => {
+  it("should join the command and its arguments", () => {
+    expect(formatCommand(["npm", "install", "--package-lock-only"])).toBe("npm install --package-lock-only");
+  });
+
+  it("should quote arguments that contain spaces", () => {
+    expect(formatCommand(["git", "commit", "-m", "Initial commit"])).toBe('git commit -m "Initial commit"');
+  });
+});
+
+describe("formatProjectPlan", () => {
+  it("should show the file tree, package.json, tsconfig.json and commands", () => {
+    const sections = formatProjectPlan({
+      projectPath: "/work/my-app",
+      files: [
+        { relativePath: "src/index.ts", content: "console.log();\n" },
+        { relativePath: "tsconfig.json", content: "{}\n" },
+        { relativePath: "package.json", content: '{"name": "my-app"}\n' },
+      ],
+      commands: [["npm", "ci"]],
+      conflicts: [],
+    });
+
+    expect(sections).toEqual([
+      { title: "Files", body: "my-app/\n├── src/\n│   └── index.ts\n├── package.json\n└── tsconfig.json" },
+      { title: "package.json", body: '{"name": "my-app"}' },
+      { title: "tsconfig.json", body: "{}" },
+      { title: "Commands", body: "npm ci" },
+    ]);
+  });
+
+  it("should list the files that already exist in the target directory", () => {
+    const sections = formatProjectPlan({
+      projectPath: "/work/my-app",
+      files: [{ relativePath: "README.md", content: "# my-app\n" }],
+      commands: [],
+      conflicts: ["README.md"],
+    });
+
+    expect(sections.at(-1)).toEqual({ title: "Already existing files", body: "README.md" });
+  });
+
+  it.each(["relaxed", "moderate", "strict"] as const)(
+    "should match the snapshot of the bundled templates with %s strictness",
+    async (tsStrictness) => {
+      const choices: UserChoices = {
+        projectName: "snapshot-app",
+        tsStrictness,
+        moduleFormat: "esm",
+        nodeVersion: "22",
+        packageManager: "npm",
+        layout: "minimal",
+        testRunner: "vitest",
+        linter: "eslint-prettier",
+        security: ["helmet", "cors", "rate-limit", "body-limit"],
+        logging: true,
+        openapi: true,
+        docker: false,
+        initGit: true,
+      };
+
+      const sections = formatProjectPlan(await planProject(choices));
+
+      expect(sections).toMatchSnapshot();
+    }
+  );
+
+  it.each(["jest", "node", "none"] as const)(
+    "should match the snapshot of the bundled templates with the %s test runner",
+    async (testRunner) => {
+      const choices: UserChoices = {
+        projectName: "snapshot-app",
+        tsStrictness: "moderate",
+        moduleFormat: "esm",
+        nodeVersion: "22",
+        packageManager: "npm",
+        layout: "minimal",
+        testRunner,
+        linter: "eslint-prettier",
+        security: [],
+        logging: true,
+        openapi: false,
+        docker: false,
+        initGit: false,
+      };
+
+      const sections = formatProjectPlan(await planProject(choices));
+
+      expect(sections).toMatchSnapshot();
+    }
+  );
+
+  it.each(["biome", "none"] as const)(
+    "should match the snapshot of the bundled templates with the %s linter",
+    async (linter) => {
+      const choices: UserChoices = {
+        projectName: "snapshot-app",
+        tsStrictness: "strict",
+        moduleFormat: "esm",
+        nodeVersion: "22",
+        packageManager: "npm",
+        layout: "minimal",
+        testRunner: "vitest",
+        linter,
+        security: [],
+        logging: true,
+        openapi: false,
+        docker: false,
+        initGit: false,
+      };
+
+      const sections = formatProjectPlan(await planProject(choices));
+
+      expect(sections).toMatchSnapshot();
+    }
+  );
+
+  it("should match the snapshot of the bundled templates with the layered layout", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "strict",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "layered",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: true,
+      initGit: false,
+    };
+
+    const plan = await planProject(choices);
+    const getContent = (relativePath: string): string | undefined =>
+      plan.files.find((file) => file.relativePath === relativePath)?.content;
+
+    expect(formatProjectPlan(plan)).toMatchSnapshot();
+    expect(getContent("src/app.ts")).toContain('import { requestLogger } from "./middleware/request-logger.js";');
+    expect(getContent("src/middleware/request-logger.ts")).toContain('from "../logger.js"');
+    expect(getContent("src/middleware/error-handler.ts")).toContain('from "../http-error.js"');
+    expect(getContent("Dockerfile")).toContain('CMD ["node", "dist/server.js"]');
+  });
+
+  it("should configure a CommonJS project", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "strict",
+      moduleFormat: "cjs",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "jest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: false,
+      openapi: true,
+      docker: false,
+      initGit: false,
+    };
+
+    const plan = await planProject(choices);
+    const getContent = (relativePath: string): string | undefined =>
+      plan.files.find((file) => file.relativePath === relativePath)?.content;
+
+    expect(getContent("package.json")).toContain('"type": "commonjs"');
+    expect(getContent("package.json")).toContain('"test": "jest"');
+    expect(getContent("eslint.config.mjs")).toContain('allowDefaultProject: ["*.config.mjs", "*.config.ts"]');
+    expect(getContent("jest.config.mjs")).toContain('preset: "ts-jest",');
+    expect(getContent("src/openapi.ts")).toContain('path.join(__dirname, "../package.json")');
+    expect(plan.files.map((file) => file.relativePath)).not.toContain("eslint.config.js");
+  });
+
+  it("should target the chosen Node.js version", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "24",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "none",
+      linter: "none",
+      security: [],
+      logging: false,
+      openapi: false,
+      docker: true,
+      initGit: false,
+    };
+
+    const plan = await planProject(choices);
+    const getContent = (relativePath: string): string | undefined =>
+      plan.files.find((file) => file.relativePath === relativePath)?.content;
+
+    expect(getContent(".nvmrc")).toBe("24\n");
+    expect(getContent("package.json")).toContain('"@types/node": "^24.0.0"');
+    expect(getContent("package.json")).toContain('"node": ">=24.0.0"');
+    expect(getContent("tsconfig.json")).toContain('"target": "ES2024"');
+    expect(getContent("Dockerfile")).toContain("FROM node:24-alpine AS base");
+  });
+
+  it("should use the chosen port in the environment schema and .env.example", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "none",
+      linter: "none",
+      security: [],
+      logging: true,
+      openapi: false,
+      docker: false,
+      initGit: false,
+      port: 8080,
+    };
+
+    const plan = await planProject(choices);
+    const getContent = (relativePath: string): string | undefined =>
+      plan.files.find((file) => file.relativePath === relativePath)?.content;
+
+    expect(getContent("src/env.ts")).toContain(".default(8080)");
+    expect(getContent(".env.example")).toContain("\nPORT=8080\n");
+  });
+
+  it("should log through the console without structured logging", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: false,
+      openapi: false,
+      docker: false,
+      initGit: false,
+    };
+
+    const plan = await planProject(choices);
+    const getContent = (relativePath: string): string | undefined =>
+      plan.files.find((file) => file.relativePath === relativePath)?.content;
+
+    expect(getContent("src/logger.ts")).toContain("export const logger = console;");
+    expect(getContent("src/request-logger.ts")).toBeUndefined();
+    expect(getContent("package.json")).not.toContain("pino");
+    expect(getContent(".env.example")).not.toContain("LOG_LEVEL");
+  });
+
+  it("should include the Docker files when containerizing", async () => {
+    const choices: UserChoices = {
+      projectName: "snapshot-app",
+      tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "pnpm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: false,
+      docker: true,
+      initGit: false,
+    };
+
+    const plan = await planProject(choices);
+    const dockerfile = plan.files.find((file) => file.relativePath === "Dockerfile");
+
+    expect(plan.files.map((file) => file.relativePath)).toEqual(
+      expect.arrayContaining([".dockerignore", "Dockerfile", "docker-compose.yml"])
+    );
+    expect(dockerfile?.content).toContain("RUN npm install --global pnpm");
+    expect(dockerfile?.content).toContain("COPY package.json pnpm-lock.yaml ./");
+    expect(dockerfile?.content).toContain("RUN pnpm run build");
+    expect(dockerfile?.content).toContain("RUN pnpm prune --prod");
+    expect(dockerfile?.content).toContain("ENV PORT=3000");
+  });
+});
@@ -0,0 +1,102 @@
+import * as p from "@clack/prompts";
+import path from "path";
+import type { ProjectPlan } from "./actions.js";
+import type { Command } from "./package-managers.js";
+
+/** Files whose rendered content is shown in full in a dry run */
+const PREVIEWED_FILES: readonly string[] = ["package.json", "tsconfig.json"];
+
+/** A titled block of the dry-run report */
+export interface DryRunSection {
+  readonly title: string;
+  readonly body: string;
+}
+
+/** Nested directory structure built from relative file paths */
+interface TreeNode {
+  readonly children: Map<string, TreeNode>;
+}
+
+/**
+ * Renders relative file paths as a directory tree, directories first and alphabetically sorted.
+ * @param {string} rootName - Name shown for the root directory
+ * @param {readonly string[]} relativePaths - File paths relative to the root, using forward slashes
+ * @returns {string} The tree, one entry per line
+ */
+export function formatFileTree(rootName: string, relativePaths: readonly string[]): string {
+  const root: TreeNode = { children: new Map() };
+  for (const relativePath of relativePaths) {
+    let node = root;
+    for (const segment of relativePath.split("/")) {
+      const child = node.children.get(segment) ?? { children: new Map() };
+      node.children.set(segment, child);
+      node = child;
+    }
+  }
+
+  const renderChildren = (node: TreeNode, indent: string): string[] => {
+    const entries = [...node.children.entries()].sort(([nameA, nodeA], [nameB, nodeB]) => {
+      const isDirectoryA = nodeA.children.size > 0;
+      const isDirectoryB = nodeB.children.size > 0;
+      if (isDirectoryA !== isDirectoryB) return isDirectoryA ? -1 : 1;
+      return nameA.localeCompare(nameB);
+    });
+
+    return entries.flatMap(([name, child], index) => {
+      const isLast = index === entries.length - 1;
+      const isDirectory = child.children.size > 0;
+      const line = `${indent}${isLast ? "└── " : "├── "}${name}${isDirectory ? "/" : ""}`;
+      return [line, ...renderChildren(child, indent + (isLast ? "    " : "│   "))];
+    });
+  };
+
+  return [`${rootName}/`, ...renderChildren(root, "")].join("\n");
+}
+
+/**
+ * Formats a command for display, quoting arguments that contain spaces.
+ * @param {Command} command - The command and its arguments
+ * @returns {string} The command as it would be typed in a shell
+ */
+export function formatCommand(command: Command): string {
+  return command.map((part) => (part.includes(" ") ? `"${part}"` : part)).join(" ");
+}
+
+/**
+ * Builds the sections of the dry-run report: file tree, rendered configuration files, commands
+ * and the files that already exist in the target directory.
+ * @param {ProjectPlan} plan - The project plan to describe
+ * @returns {DryRunSection[]} The report sections, in display order
+ */
+export function formatProjectPlan(plan: ProjectPlan): DryRunSection[] {
+  const previewedFiles = PREVIEWED_FILES.flatMap((fileName) =>
+    plan.files.filter((file) => file.relativePath === fileName)
+  );
+
+  return [
+    {
+      title: "Files",
+      body: formatFileTree(
+        path.basename(plan.projectPath),
+        plan.files.map((file) => file.relativePath)
+      ),
+    },
+    ...previewedFiles.map((file) => ({ title: file.relativePath, body: file.content.trimEnd() })),
+    {
+      title: "Commands",
+      body: plan.commands.map(formatCommand).join("\n"),
+    },
+    ...(plan.conflicts.length > 0 ? [{ title: "Already existing files", body: plan.conflicts.join("\n") }] : []),
+  ];
+}
+
+/**
+ * Prints the dry-run report for a project plan.
+ * @param {ProjectPlan} plan - The project plan to display
+ * @returns {void}
+ */
+export function displayProjectPlan(plan: ProjectPlan): void {
+  for (const section of formatProjectPlan(plan)) {
+    p.note(section.body, section.title);
+  }
+}
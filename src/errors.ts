@@ -0,0 +1,78 @@
+/** Steps of a project generation, in the order they run */
+export type ProjectStep = "files" | "install" | "verify" | "git";
+
+/** Base class of the errors thrown while generating a project, so callers can tell them from unexpected failures */
+export class WizardError extends Error {
+  /**
+   * @param {string} message - Description of the error
+   * @param {ErrorOptions} options - The underlying error, if any
+   */
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** Thrown when the target directory already contains files of the project and the conflict is not resolved */
+export class DirectoryConflictError extends WizardError {
+  /**
+   * @param {string} projectPath - Absolute path of the target directory
+   * @param {readonly string[]} conflicts - Relative paths of the project files that already exist
+   */
+  constructor(
+    readonly projectPath: string,
+    readonly conflicts: readonly string[]
+  ) {
+    super(`Directory ${projectPath} already contains files of the project: ${conflicts.join(", ")}`);
+  }
+}
+
+/** What failed, by step, in the messages of {@link GenerationError} */
+const STEP_FAILURES: Record<Exclude<ProjectStep, "git">, string> = {
+  files: "Could not create the project files",
+  install: "Could not install dependencies",
+  verify: "Could not verify the project",
+};
+
+/** Thrown when writing the files, installing the dependencies or verifying a project fails */
+export class GenerationError extends WizardError {
+  /**
+   * @param {Exclude<ProjectStep, "git">} step - The step that failed; Git failures are reported in the result instead
+   * @param {unknown} cause - The underlying error
+   * @param {string | undefined} keptPath - Where the partially generated project was kept, with `keepOnFailure`
+   */
+  constructor(
+    readonly step: Exclude<ProjectStep, "git">,
+    cause: unknown,
+    readonly keptPath?: string
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${STEP_FAILURES[step]}: ${reason}`, { cause });
+  }
+}
+
+/** Thrown when a generation is aborted through its `signal`, once the partial project is cleaned up */
+export class GenerationCancelledError extends WizardError {
+  /**
+   * @param {string | undefined} keptPath - Where the partially generated project was kept, with `keepOnFailure`
+   */
+  constructor(readonly keptPath?: string) {
+    super("Project generation was cancelled");
+  }
+}
+
+/** Thrown when a check of a generated project fails, the cause of a {@link GenerationError} of the verify step */
+export class VerificationError extends WizardError {
+  /**
+   * @param {string} message - The check that failed
+   * @param {string} output - What the checked command or server printed, to show instead of a generic error
+   * @param {ErrorOptions} options - The underlying error, if any
+   */
+  constructor(
+    message: string,
+    readonly output: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { buildTemplateContext } from "./actions.js";
+import { discoverFeaturePlugins, loadFeaturePlugin, loadFeaturePlugins, validateFeature } from "./feature-plugins.js";
+import { DEFAULT_CHOICES } from "./prompts.js";
+
+const builtInContext = buildTemplateContext(DEFAULT_CHOICES);
+
+const kafkaPlugin = `export default {
+  name: "kafka",
+  description: "Consume events from Kafka",
+  files: () => [{ relativePath: "src/kafka.ts", content: "export {};\\n" }],
+  dependencies: { kafkajs: "^2.2.4" },
+  env: [{ name: "KAFKA_BROKERS", description: "Kafka brokers", default: "localhost:9092" }],
+};
+`;
+
+describe("validateFeature", () => {
+  it("should accept a well-formed feature", () => {
+    const feature = {
+      name: "kafka",
+      description: "Consume events from Kafka",
+      requires: ["tracing"],
+      variables: { KAFKA_TOPIC: { default: "orders" } },
+      prompts: [{ type: "text", variable: "KAFKA_TOPIC", message: "Which topic?" }],
+      files: () => [],
+      nextSteps: [{ command: "docker compose up kafka", description: "Start a local broker" }],
+    };
+
+    expect(validateFeature(feature, "express-ts-wizard-feature-kafka", builtInContext)).toBe(feature);
+  });
+
+  it("should list every problem", () => {
+    const feature = {
+      name: "Kafka",
+      label: "Kafka",
+      conflicts: "rabbitmq",
+      prompts: [{ type: "confirm", flag: "DOCKER", message: "Docker?" }],
+      files: [],
+      scripts: { consume: 1 },
+      env: [{ name: "kafka_brokers", description: "Kafka brokers", default: "localhost:9092" }],
+      nextSteps: ["npm run consume"],
+    };
+
+    expect(() => validateFeature(feature, "express-ts-wizard-feature-kafka", builtInContext)).toThrow(
+      [
+        'Invalid feature "Kafka" in express-ts-wizard-feature-kafka:',
+        '  - Unknown key "label"',
+        '  - "name" must use lowercase letters, numbers and hyphens, starting with a letter',
+        '  - "description" is required',
+        '  - "conflicts" must be a list of feature names',
+        '  - Flag "DOCKER" of Prompt 1 is built in and cannot be set by a prompt',
+        '  - "files" must be a function returning the files to add',
+        '  - "scripts" must map names to strings',
+        '  - Environment variable "kafka_brokers" must use uppercase letters, numbers and underscores',
+        '  - "nextSteps" must be a list of objects with "command", "description"',
+      ].join("\n")
+    );
+    expect(() => validateFeature("kafka", "express-ts-wizard-feature-kafka", builtInContext)).toThrow(
+      "Invalid feature in express-ts-wizard-feature-kafka: expected an object"
+    );
+  });
+});
+
+describe("feature plugins", () => {
+  let projectPath: string;
+
+  /**
+   * Writes a plugin package into the node_modules directory of the temporary project.
+   * @param {string} packageName - Name of the package, optionally scoped
+   * @param {Record<string, unknown>} packageJson - Fields of its package.json besides the name
+   * @param {Record<string, string>} files - Contents of its files by relative path
+   * @returns {Promise<string>} The package directory
+   */
+  async function writePlugin(
+    packageName: string,
+    packageJson: Record<string, unknown>,
+    files: Record<string, string>
+  ): Promise<string> {
+    const packageDirectory = path.join(projectPath, "node_modules", ...packageName.split("/"));
+    await fs.outputJson(path.join(packageDirectory, "package.json"), { name: packageName, ...packageJson });
+    for (const [relativePath, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(packageDirectory, relativePath), content);
+    }
+    return packageDirectory;
+  }
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "feature-plugins-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it("should discover plain and scoped plugin packages", async () => {
+    await writePlugin("express-ts-wizard-feature-kafka", { type: "module" }, { "index.js": kafkaPlugin });
+    await writePlugin("@acme/express-ts-wizard-feature-audit", { type: "module" }, {});
+    await writePlugin("express-ts-wizard", {}, {});
+    await writePlugin("@acme/logger", {}, {});
+
+    expect(await discoverFeaturePlugins([projectPath])).toEqual([
+      path.join(projectPath, "node_modules/@acme/express-ts-wizard-feature-audit"),
+      path.join(projectPath, "node_modules/express-ts-wizard-feature-kafka"),
+    ]);
+  });
+
+  it("should search next to an installed package but not in parent directories", async () => {
+    const wizard = await writePlugin("express-ts-wizard", {}, {});
+    await writePlugin("express-ts-wizard-feature-kafka", { type: "module" }, { "index.js": kafkaPlugin });
+    await fs.outputJson(
+      path.join(wizard, "node_modules/express-ts-wizard-feature-audit/package.json"),
+      { name: "express-ts-wizard-feature-audit" }
+    );
+
+    expect(await discoverFeaturePlugins([wizard])).toEqual([
+      path.join(wizard, "node_modules/express-ts-wizard-feature-audit"),
+      path.join(projectPath, "node_modules/express-ts-wizard-feature-kafka"),
+    ]);
+    expect(await discoverFeaturePlugins([path.join(projectPath, "services/orders")])).toEqual([]);
+  });
+
+  it("should load the features a plugin exports from its package entry", async () => {
+    const single = await writePlugin(
+      "express-ts-wizard-feature-kafka",
+      { type: "module", main: "lib/index.js" },
+      { "lib/index.js": kafkaPlugin }
+    );
+    const multiple = await writePlugin(
+      "@acme/express-ts-wizard-feature-cache",
+      { type: "module", exports: { ".": { import: "./esm/index.js", require: "./cjs/index.cjs" } } },
+      {
+        "esm/index.js": [
+          "export default [",
+          '  { name: "redis", description: "Redis" },',
+          '  { name: "memcached", description: "Memcached" },',
+          "];",
+          "",
+        ].join("\n"),
+      }
+    );
+
+    const [kafka] = await loadFeaturePlugin(single);
+    expect(kafka).toMatchObject({ name: "kafka", dependencies: { kafkajs: "^2.2.4" } });
+    expect(await kafka.files?.({ variables: {}, flags: {}, choices: DEFAULT_CHOICES })).toEqual([
+      { relativePath: "src/kafka.ts", content: "export {};\n" },
+    ]);
+    expect((await loadFeaturePlugin(multiple)).map((feature) => feature.name)).toEqual(["redis", "memcached"]);
+  });
+
+  it("should report plugins that cannot be loaded or export invalid features", async () => {
+    const broken = await writePlugin("express-ts-wizard-feature-broken", { type: "module" }, {});
+    await expect(loadFeaturePlugin(broken)).rejects.toThrow(
+      "Could not load feature plugin express-ts-wizard-feature-broken:"
+    );
+
+    const invalid = await writePlugin(
+      "@acme/express-ts-wizard-feature-invalid",
+      { type: "module" },
+      { "index.js": 'export default { name: "invalid" };\n' }
+    );
+    await expect(loadFeaturePlugin(invalid)).rejects.toThrow(
+      'Invalid feature "invalid" in @acme/express-ts-wizard-feature-invalid:\n  - "description" is required'
+    );
+  });
+
+  it("should skip plugins that cannot be loaded or repeat a feature, with a warning", async () => {
+    await writePlugin("express-ts-wizard-feature-broken", { type: "module" }, {});
+    await writePlugin("express-ts-wizard-feature-kafka", { type: "module" }, { "index.js": kafkaPlugin });
+    await writePlugin("express-ts-wizard-feature-kafkajs", { type: "module" }, { "index.js": kafkaPlugin });
+    const warnings: string[] = [];
+
+    const features = await loadFeaturePlugins({
+      searchDirectories: [projectPath],
+      onWarning: (message) => warnings.push(message),
+    });
+
+    expect(features.map((feature) => feature.name)).toEqual(["kafka"]);
+    expect(warnings).toEqual([
+      expect.stringMatching(/^Could not load feature plugin express-ts-wizard-feature-broken:/),
+      'Feature plugin express-ts-wizard-feature-kafkajs provides the feature "kafka", ' +
+        "already provided by express-ts-wizard-feature-kafka",
+    ]);
+  });
+});
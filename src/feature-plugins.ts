@@ -0,0 +1,268 @@
+import fs from "fs-extra";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { buildTemplateContext } from "./actions.js";
+import { checkDeclarations, isRecord } from "./custom-template.js";
+import { FEATURE_NAME_PATTERN, type Feature } from "./features.js";
+import { DEFAULT_CHOICES } from "./prompts.js";
+import type { TemplateContext } from "./template-engine.js";
+
+/** Prefix of the package names of feature plugins, optionally scoped (e.g. `@acme/express-ts-wizard-feature-kafka`) */
+export const FEATURE_PLUGIN_PREFIX = "express-ts-wizard-feature-";
+
+const ENV_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const FEATURE_KEYS: readonly string[] = [
+  "name",
+  "description",
+  "requires",
+  "conflicts",
+  "variables",
+  "prompts",
+  "files",
+  "dependencies",
+  "devDependencies",
+  "scripts",
+  "env",
+  "nextSteps",
+];
+
+/** Root directory of the wizard package, the parent of `src` or `dist` */
+const wizardDirectory = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+
+/** Options of {@link loadFeaturePlugins} */
+export interface LoadFeaturePluginsOptions {
+  /** Directories to search, see {@link discoverFeaturePlugins} */
+  readonly searchDirectories?: readonly string[];
+  /** Called with the reason a plugin is skipped: it cannot be loaded, is invalid or repeats a feature */
+  readonly onWarning?: (message: string) => void;
+}
+
+/**
+ * Lists the `node_modules` directories a package can find its siblings and dependencies in.
+ * Unlike Node.js resolution, the parents of the directory are not searched, so that packages
+ * installed further up the file system are never imported.
+ * @param {string} directory - The package or project directory
+ * @returns {string[]} Its own `node_modules` directory, and the one it is installed in, if any
+ */
+function getNodeModulesDirectories(directory: string): string[] {
+  const parent = path.dirname(directory);
+  return [path.join(directory, "node_modules"), ...(path.basename(parent) === "node_modules" ? [parent] : [])];
+}
+
+/**
+ * Finds the installed feature plugins: packages named `express-ts-wizard-feature-*` or
+ * `@scope/express-ts-wizard-feature-*` next to the wizard (e.g. installed with
+ * `npx -p express-ts-wizard -p express-ts-wizard-feature-kafka express-ts-wizard`) or in
+ * the current project.
+ * @param {readonly string[]} searchDirectories - Package or project directories whose `node_modules` are searched
+ * @returns {Promise<string[]>} The package directories, one per package name, in search order
+ */
+export async function discoverFeaturePlugins(
+  searchDirectories: readonly string[] = [wizardDirectory, process.cwd()]
+): Promise<string[]> {
+  const nodeModulesDirectories = [...new Set(searchDirectories.flatMap(getNodeModulesDirectories))];
+  const packageDirectories = new Map<string, string>();
+
+  for (const nodeModulesDirectory of nodeModulesDirectories.filter((directory) => fs.existsSync(directory))) {
+    const entries = await fs.readdir(nodeModulesDirectory);
+    const scopedEntries = await Promise.all(
+      entries
+        .filter((entry) => entry.startsWith("@"))
+        .map(async (scope) =>
+          (await fs.readdir(path.join(nodeModulesDirectory, scope))).map((entry) => `${scope}/${entry}`)
+        )
+    );
+    const packageNames = [...entries, ...scopedEntries.flat()]
+      .filter((name) => name.replace(/^@[^/]+\//, "").startsWith(FEATURE_PLUGIN_PREFIX))
+      .sort();
+    for (const packageName of packageNames) {
+      if (!packageDirectories.has(packageName)) {
+        packageDirectories.set(packageName, path.join(nodeModulesDirectory, ...packageName.split("/")));
+      }
+    }
+  }
+
+  return [...packageDirectories.values()];
+}
+
+/**
+ * Resolves the module a package exports, from `exports` (its `import` or `default` condition) or `main`.
+ * @param {string} packageDirectory - Directory of the package
+ * @returns {Promise<string>} Absolute path of the entry module
+ * @throws {Error} If package.json cannot be read
+ */
+async function resolvePackageEntry(packageDirectory: string): Promise<string> {
+  const packageJson = (await fs.readJson(path.join(packageDirectory, "package.json"))) as {
+    exports?: unknown;
+    main?: unknown;
+  };
+  let entry: unknown = packageJson.exports;
+  if (isRecord(entry) && "." in entry) {
+    entry = entry["."];
+  }
+  if (isRecord(entry)) {
+    entry = entry.import ?? entry.default;
+  }
+  if (typeof entry !== "string") {
+    entry = typeof packageJson.main === "string" ? packageJson.main : "index.js";
+  }
+  return path.join(packageDirectory, entry as string);
+}
+
+/**
+ * Checks that a string-to-string map is well formed.
+ * @param {unknown} value - The value to check
+ * @param {string} key - Name of the feature field, for messages
+ * @param {string[]} problems - List the problems are added to
+ * @returns {void}
+ */
+function checkStringRecord(value: unknown, key: string, problems: string[]): void {
+  if (value !== undefined && (!isRecord(value) || !Object.values(value).every((entry) => typeof entry === "string"))) {
+    problems.push(`"${key}" must map names to strings`);
+  }
+}
+
+/**
+ * Checks that a value is a list of objects with the given string fields.
+ * @param {unknown} value - The value to check
+ * @param {string} key - Name of the feature field, for messages
+ * @param {readonly string[]} fields - Required string fields of each item
+ * @param {string[]} problems - List the problems are added to
+ * @returns {void}
+ */
+function checkObjectList(value: unknown, key: string, fields: readonly string[], problems: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+  const isValid =
+    Array.isArray(value) &&
+    (value as unknown[]).every((item) => isRecord(item) && fields.every((field) => typeof item[field] === "string"));
+  if (!isValid) {
+    problems.push(`"${key}" must be a list of objects with ${fields.map((field) => `"${field}"`).join(", ")}`);
+  }
+}
+
+/**
+ * Validates a feature exported by a plugin.
+ * @param {unknown} value - The exported value
+ * @param {string} source - Package the feature comes from, for messages
+ * @param {TemplateContext} builtInContext - Context with the built-in variables and flags
+ * @returns {Feature} The feature
+ * @throws {Error} Listing every problem found in the feature
+ */
+export function validateFeature(value: unknown, source: string, builtInContext: TemplateContext): Feature {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid feature in ${source}: expected an object`);
+  }
+
+  const problems: string[] = Object.keys(value)
+    .filter((key) => !FEATURE_KEYS.includes(key))
+    .map((key) => `Unknown key "${key}"`);
+  if (typeof value.name !== "string" || !FEATURE_NAME_PATTERN.test(value.name)) {
+    problems.push('"name" must use lowercase letters, numbers and hyphens, starting with a letter');
+  }
+  if (typeof value.description !== "string" || !value.description) {
+    problems.push('"description" is required');
+  }
+  for (const key of ["requires", "conflicts"]) {
+    const names = value[key];
+    if (names !== undefined && (!Array.isArray(names) || !names.every((name) => typeof name === "string"))) {
+      problems.push(`"${key}" must be a list of feature names`);
+    }
+  }
+  problems.push(...checkDeclarations(value.variables ?? {}, value.prompts ?? [], builtInContext).problems);
+  if (value.files !== undefined && typeof value.files !== "function") {
+    problems.push('"files" must be a function returning the files to add');
+  }
+  for (const key of ["dependencies", "devDependencies", "scripts"]) {
+    checkStringRecord(value[key], key, problems);
+  }
+  checkObjectList(value.env, "env", ["name", "description", "default"], problems);
+  if (Array.isArray(value.env)) {
+    for (const variable of value.env as unknown[]) {
+      if (isRecord(variable) && typeof variable.name === "string" && !ENV_NAME_PATTERN.test(variable.name)) {
+        problems.push(`Environment variable "${variable.name}" must use uppercase letters, numbers and underscores`);
+      }
+    }
+  }
+  checkObjectList(value.nextSteps, "nextSteps", ["command", "description"], problems);
+
+  if (problems.length > 0) {
+    const name = typeof value.name === "string" ? ` "${value.name}"` : "";
+    throw new Error(`Invalid feature${name} in ${source}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return value as unknown as Feature;
+}
+
+/**
+ * Returns the name of an installed package from its directory.
+ * @param {string} packageDirectory - Directory of the package in `node_modules`
+ * @returns {string} The package name, with its scope if any
+ */
+function getPackageName(packageDirectory: string): string {
+  const scope = path.basename(path.dirname(packageDirectory));
+  return scope.startsWith("@") ? `${scope}/${path.basename(packageDirectory)}` : path.basename(packageDirectory);
+}
+
+/**
+ * Loads the features of a plugin package.
+ * The package's entry module exports a feature, or a list of features, as its default export.
+ * @param {string} packageDirectory - Directory of the plugin package
+ * @returns {Promise<Feature[]>} The validated features
+ * @throws {Error} If the module cannot be imported or a feature is invalid
+ */
+export async function loadFeaturePlugin(packageDirectory: string): Promise<Feature[]> {
+  const source = getPackageName(packageDirectory);
+
+  let exported: unknown;
+  try {
+    const pluginModule = (await import(pathToFileURL(await resolvePackageEntry(packageDirectory)).href)) as {
+      default?: unknown;
+    };
+    exported = pluginModule.default;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not load feature plugin ${source}: ${message}`);
+  }
+
+  const builtInContext = buildTemplateContext(DEFAULT_CHOICES);
+  return (Array.isArray(exported) ? (exported as unknown[]) : [exported]).map((feature) =>
+    validateFeature(feature, source, builtInContext)
+  );
+}
+
+/**
+ * Discovers and loads every installed feature plugin.
+ * A plugin that cannot be loaded, exports an invalid feature or provides a feature already provided
+ * by another plugin is skipped, so that it cannot prevent generating projects without it.
+ * @param {LoadFeaturePluginsOptions} options - Where to search and how to report skipped plugins
+ * @returns {Promise<Feature[]>} The features of every valid plugin, in discovery order
+ */
+export async function loadFeaturePlugins(options: LoadFeaturePluginsOptions = {}): Promise<Feature[]> {
+  const features: Feature[] = [];
+  const sources = new Map<string, string>();
+  for (const packageDirectory of await discoverFeaturePlugins(options.searchDirectories)) {
+    let pluginFeatures: Feature[];
+    try {
+      pluginFeatures = await loadFeaturePlugin(packageDirectory);
+    } catch (error) {
+      options.onWarning?.(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    const source = getPackageName(packageDirectory);
+    const duplicate = pluginFeatures.find((feature) => sources.has(feature.name));
+    if (duplicate !== undefined) {
+      const otherSource = sources.get(duplicate.name) ?? "";
+      options.onWarning?.(
+        `Feature plugin ${source} provides the feature "${duplicate.name}", already provided by ${otherSource}`
+      );
+      continue;
+    }
+    for (const feature of pluginFeatures) {
+      sources.set(feature.name, source);
+    }
+    features.push(...pluginFeatures);
+  }
+  return features;
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "@jest/globals";
+import { getTemplatesDirectory, planProject } from "./actions.js";
+import { applyFeatures, getFeatureContext, getFeatureManifest, resolveFeatures, type Feature } from "./features.js";
+import type { UserChoices } from "./prompts.js";
+
+const choices: UserChoices = {
+  projectName: "orders-api",
+  tsStrictness: "moderate",
+  moduleFormat: "esm",
+  nodeVersion: "22",
+  packageManager: "npm",
+  layout: "minimal",
+  testRunner: "vitest",
+  linter: "eslint-prettier",
+  security: [],
+  logging: false,
+  openapi: false,
+  docker: false,
+  initGit: false,
+};
+
+const kafka: Feature = {
+  name: "kafka",
+  description: "Consume events from Kafka",
+  variables: { KAFKA_TOPIC: { default: "orders" } },
+  prompts: [{ type: "text", variable: "KAFKA_TOPIC", message: "Which topic?" }],
+  files: ({ variables }) => [
+    { relativePath: "src/kafka.ts", content: `export const topic = "${variables.KAFKA_TOPIC}";\n` },
+  ],
+  dependencies: { kafkajs: "^2.2.4" },
+  scripts: { "kafka:consume": "node dist/kafka.js" },
+  env: [{ name: "KAFKA_BROKERS", description: "Comma-separated Kafka brokers", default: "localhost:9092" }],
+  nextSteps: [{ command: "docker compose up kafka", description: "Start a local broker" }],
+};
+
+const schemaRegistry: Feature = {
+  name: "schema-registry",
+  description: "Validate events with a schema registry",
+  requires: ["kafka"],
+  dependencies: { "@kafkajs/confluent-schema-registry": "^3.3.0" },
+};
+
+const redis: Feature = { name: "redis", description: "Cache responses in Redis", conflicts: ["memcached"] };
+
+const memcached: Feature = { name: "memcached", description: "Cache responses in Memcached" };
+
+describe("resolveFeatures", () => {
+  const available = [redis, schemaRegistry, kafka, memcached];
+
+  it("should add required features before the features requiring them", () => {
+    expect(resolveFeatures(available, ["schema-registry", "redis"])).toEqual([redis, kafka, schemaRegistry]);
+    expect(resolveFeatures(available, [])).toEqual([]);
+  });
+
+  it("should reject unknown, missing and conflicting features", () => {
+    expect(() => resolveFeatures(available, ["rabbitmq"])).toThrow(
+      'Unknown feature "rabbitmq". Available features: redis, schema-registry, kafka, memcached'
+    );
+    expect(() => resolveFeatures([schemaRegistry], ["schema-registry"])).toThrow(
+      'Feature "schema-registry" requires "kafka", which is not installed'
+    );
+    expect(() => resolveFeatures(available, ["memcached", "redis"])).toThrow(
+      'Features "redis" and "memcached" cannot be added together'
+    );
+  });
+
+  it("should reject features that require each other", () => {
+    const cyclicKafka: Feature = { ...kafka, requires: ["schema-registry"] };
+
+    expect(() => resolveFeatures([schemaRegistry, cyclicKafka], ["schema-registry"])).toThrow(
+      "Features require each other: schema-registry → kafka → schema-registry"
+    );
+  });
+});
+
+describe("getFeatureManifest", () => {
+  it("should combine the variables and prompts of the features", () => {
+    expect(getFeatureManifest([kafka, redis])).toEqual({ variables: kafka.variables, prompts: kafka.prompts });
+  });
+
+  it("should reject a variable or flag declared by two features", () => {
+    expect(() => getFeatureManifest([kafka, { ...redis, variables: { KAFKA_TOPIC: { default: "" } } }])).toThrow(
+      'Variable "KAFKA_TOPIC" is declared by both features "kafka" and "redis"'
+    );
+
+    const cache: Feature = { ...redis, prompts: [{ type: "confirm", flag: "CACHE", message: "Cache?" }] };
+    expect(() => getFeatureManifest([cache, { ...memcached, prompts: cache.prompts }])).toThrow(
+      'Flag "CACHE" is declared by both features "redis" and "memcached"'
+    );
+  });
+});
+
+describe("getFeatureContext", () => {
+  it("should render the environment variables for the schema and .env.example", () => {
+    const tracing: Feature = {
+      name: "tracing",
+      description: "Export traces",
+      env: [
+        {
+          name: "OTEL_EXPORTER_OTLP_ENDPOINT",
+          description: "OpenTelemetry collector that receives the traces of every request",
+          default: "http://localhost:4318",
+        },
+      ],
+    };
+
+    expect(getFeatureContext([kafka, redis, tracing])).toEqual({
+      variables: {
+        FEATURE_ENV_SCHEMA: [
+          '  KAFKA_BROKERS: z.string().default("localhost:9092").describe("Comma-separated Kafka brokers"),',
+          "  OTEL_EXPORTER_OTLP_ENDPOINT: z",
+          "    .string()",
+          '    .default("http://localhost:4318")',
+          '    .describe("OpenTelemetry collector that receives the traces of every request"),',
+        ].join("\n"),
+        FEATURE_ENV_EXAMPLE: [
+          "# Comma-separated Kafka brokers",
+          "KAFKA_BROKERS=localhost:9092",
+          "",
+          "# OpenTelemetry collector that receives the traces of every request",
+          "OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318",
+        ].join("\n"),
+      },
+      flags: { FEATURE_ENV: true },
+    });
+    expect(getFeatureContext([redis]).flags).toEqual({ FEATURE_ENV: false });
+  });
+
+  it("should reject an environment variable declared by two features", () => {
+    expect(() => getFeatureContext([kafka, { ...redis, env: kafka.env }])).toThrow(
+      "Environment variable KAFKA_BROKERS is declared by more than one feature"
+    );
+  });
+});
+
+describe("applyFeatures", () => {
+  const packageJson = { scripts: { dev: "tsx watch src/index.ts" }, dependencies: { zod: "^4.0.0" } };
+  const files = [
+    { relativePath: ".env.example", content: "PORT=3000\n" },
+    { relativePath: "package.json", content: `${JSON.stringify(packageJson, null, 2)}\n` },
+  ];
+  const context = { variables: { KAFKA_TOPIC: "payments" }, flags: {}, choices };
+
+  it("should add the files, dependencies and scripts of the features", async () => {
+    const result = await applyFeatures(files, [kafka, schemaRegistry], context);
+
+    expect(result.map((file) => file.relativePath)).toEqual([".env.example", "package.json", "src/kafka.ts"]);
+    expect(result[2].content).toBe('export const topic = "payments";\n');
+    // Compared as text, so the order of the merged entries is checked too
+    expect(result[1].content).toBe(
+      `${JSON.stringify(
+        {
+          scripts: { "dev": "tsx watch src/index.ts", "kafka:consume": "node dist/kafka.js" },
+          dependencies: { "@kafkajs/confluent-schema-registry": "^3.3.0", "kafkajs": "^2.2.4", "zod": "^4.0.0" },
+        },
+        null,
+        2
+      )}\n`
+    );
+  });
+
+  it("should leave package.json untouched when no feature contributes to it", async () => {
+    expect(await applyFeatures(files, [redis], context)).toEqual(files);
+  });
+
+  it("should reject features that replace files, scripts or dependencies", async () => {
+    const envFeature: Feature = { ...redis, files: () => [{ relativePath: ".env.example", content: "" }] };
+    await expect(applyFeatures(files, [envFeature], context)).rejects.toThrow(
+      'Feature "redis" cannot add .env.example, which is already added by the template'
+    );
+
+    const kafkaFile: Feature = { ...redis, files: () => [{ relativePath: "src/kafka.ts", content: "" }] };
+    await expect(applyFeatures(files, [kafka, kafkaFile], context)).rejects.toThrow(
+      'Feature "redis" cannot add src/kafka.ts, which is already added by feature "kafka"'
+    );
+
+    const zod: Feature = { ...redis, dependencies: { zod: "^3.0.0" } };
+    await expect(applyFeatures(files, [zod], context)).rejects.toThrow(
+      'Feature "redis" sets dependencies.zod to "^3.0.0", but it is already "^4.0.0"'
+    );
+  });
+});
+
+describe("planProject with features", () => {
+  it("should add the environment variables of features to the schema and .env.example", async () => {
+    const { files } = await planProject(choices, {
+      directory: getTemplatesDirectory(),
+      values: { variables: { KAFKA_TOPIC: "orders" }, flags: {} },
+      features: [kafka],
+    });
+    const envSchema = files.find((file) => file.relativePath === "src/env.ts")?.content;
+    const envExample = files.find((file) => file.relativePath === ".env.example")?.content;
+
+    expect(envSchema).toContain(
+      '  KAFKA_BROKERS: z.string().default("localhost:9092").describe("Comma-separated Kafka brokers"),\n});'
+    );
+    expect(envExample).toMatch(/\n\n# Comma-separated Kafka brokers\nKAFKA_BROKERS=localhost:9092\n$/);
+    expect(files.map((file) => file.relativePath)).toContain("src/kafka.ts");
+  });
+
+  it("should reject an environment variable the project already reads", async () => {
+    const port: Feature = { ...redis, env: [{ name: "PORT", description: "Port", default: "8080" }] };
+
+    await expect(planProject(choices, { directory: getTemplatesDirectory(), features: [port] })).rejects.toThrow(
+      "Environment variable PORT of a feature is already read by the project"
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import type { UserChoices } from "./prompts.js";
+import type {
+  ProjectFile,
+  TemplateContext,
+  TemplateManifest,
+  TemplatePrompt,
+  TemplateVariable,
+} from "./template-engine.js";
+
+/** An environment variable read by a feature, added to the schema in `src/env.ts` and to `.env.example` */
+export interface FeatureEnvVariable {
+  /** e.g. `KAFKA_BROKERS` */
+  readonly name: string;
+  readonly description: string;
+  /** Value used when the variable is not set */
+  readonly default: string;
+}
+
+/** A command shown in the next steps once the project is created */
+export interface FeatureNextStep {
+  readonly command: string;
+  readonly description: string;
+}
+
+/** Values available to the files of a feature */
+export interface FeatureContext extends TemplateContext {
+  readonly choices: UserChoices;
+}
+
+/**
+ * A capability that can be added to a generated project, contributed by a plugin package.
+ * The wizard asks for the feature, asks its prompts, writes its files and merges its
+ * dependencies, scripts and environment variables into the project.
+ */
+export interface Feature {
+  /** Unique name in lowercase kebab-case, used with --features */
+  readonly name: string;
+  /** One line shown in the feature prompt */
+  readonly description: string;
+  /** Features added along with this one and applied before it */
+  readonly requires?: readonly string[];
+  /** Features that cannot be added together with this one */
+  readonly conflicts?: readonly string[];
+  /** Variables asked by the prompts, with the same rules as in a custom template's manifest */
+  readonly variables?: Readonly<Record<string, TemplateVariable>>;
+  /** Prompts asked after the built-in prompts once the feature is selected */
+  readonly prompts?: readonly TemplatePrompt[];
+  /** Files added to the project; they may not replace files of the template or of other features */
+  readonly files?: (context: FeatureContext) => readonly ProjectFile[] | Promise<readonly ProjectFile[]>;
+  readonly dependencies?: Readonly<Record<string, string>>;
+  readonly devDependencies?: Readonly<Record<string, string>>;
+  readonly scripts?: Readonly<Record<string, string>>;
+  readonly env?: readonly FeatureEnvVariable[];
+  readonly nextSteps?: readonly FeatureNextStep[];
+}
+
+/** Feature names are lowercase kebab-case, e.g. `kafka-consumer` */
+export const FEATURE_NAME_PATTERN = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+
+/** Sections of package.json that features contribute to */
+const PACKAGE_JSON_SECTIONS = ["scripts", "dependencies", "devDependencies"] as const;
+
+/** Line width of the formatters set up in generated projects */
+const LINE_WIDTH = 120;
+
+/**
+ * Resolves the features to add from the names the user selected.
+ * Required features are added too, every feature comes after the features it requires,
+ * and otherwise features keep the order in which they are available.
+ * @param {readonly Feature[]} available - Every available feature
+ * @param {readonly string[]} names - Names of the selected features
+ * @returns {Feature[]} The features to add, in the order they are applied
+ * @throws {Error} If a feature is unknown, features require each other or conflict
+ */
+export function resolveFeatures(available: readonly Feature[], names: readonly string[]): Feature[] {
+  const featuresByName = new Map(available.map((feature) => [feature.name, feature]));
+  const unknownName = names.find((name) => !featuresByName.has(name));
+  if (unknownName !== undefined) {
+    const availableNames = available.map((feature) => feature.name).join(", ") || "none";
+    throw new Error(`Unknown feature "${unknownName}". Available features: ${availableNames}`);
+  }
+
+  const resolved: Feature[] = [];
+  const requirementChain: string[] = [];
+  const visit = (feature: Feature): void => {
+    if (resolved.includes(feature)) {
+      return;
+    }
+    if (requirementChain.includes(feature.name)) {
+      throw new Error(`Features require each other: ${[...requirementChain, feature.name].join(" → ")}`);
+    }
+
+    requirementChain.push(feature.name);
+    for (const requiredName of feature.requires ?? []) {
+      const requiredFeature = featuresByName.get(requiredName);
+      if (requiredFeature === undefined) {
+        throw new Error(`Feature "${feature.name}" requires "${requiredName}", which is not installed`);
+      }
+      visit(requiredFeature);
+    }
+    requirementChain.pop();
+    resolved.push(feature);
+  };
+  available.filter((feature) => names.includes(feature.name)).forEach(visit);
+
+  for (const [index, feature] of resolved.entries()) {
+    const conflictingFeature = resolved
+      .slice(index + 1)
+      .find((other) => feature.conflicts?.includes(other.name) || other.conflicts?.includes(feature.name));
+    if (conflictingFeature !== undefined) {
+      throw new Error(`Features "${feature.name}" and "${conflictingFeature.name}" cannot be added together`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Combines the variables and prompts of features, as a manifest for the template prompts.
+ * @param {readonly Feature[]} features - The features to add
+ * @returns {TemplateManifest} The variables and prompts of every feature, in order
+ * @throws {Error} If two features declare the same variable or prompt for the same flag
+ */
+export function getFeatureManifest(features: readonly Feature[]): TemplateManifest {
+  const variables: Record<string, TemplateVariable> = {};
+  const owners = new Map<string, string>();
+  const claim = (kind: string, name: string, feature: Feature): void => {
+    const owner = owners.get(name);
+    if (owner !== undefined) {
+      throw new Error(`${kind} "${name}" is declared by both features "${owner}" and "${feature.name}"`);
+    }
+    owners.set(name, feature.name);
+  };
+
+  for (const feature of features) {
+    for (const [name, variable] of Object.entries(feature.variables ?? {})) {
+      claim("Variable", name, feature);
+      variables[name] = variable;
+    }
+    for (const prompt of feature.prompts ?? []) {
+      if (prompt.type === "confirm") {
+        claim("Flag", prompt.flag, feature);
+      }
+    }
+  }
+
+  return { variables, prompts: features.flatMap((feature) => feature.prompts ?? []) };
+}
+
+/**
+ * Renders an environment variable of a feature as an entry of the zod schema in `src/env.ts`,
+ * broken into one call per line like the formatters do when it does not fit on one line.
+ * @param {FeatureEnvVariable} variable - The environment variable
+ * @returns {string} The schema entry, indented for the schema object
+ */
+function renderEnvSchemaEntry(variable: FeatureEnvVariable): string {
+  const calls = [
+    "string()",
+    `default(${JSON.stringify(variable.default)})`,
+    `describe(${JSON.stringify(variable.description)})`,
+  ];
+  const line = `  ${variable.name}: z.${calls.join(".")},`;
+  if (line.length <= LINE_WIDTH) {
+    return line;
+  }
+  return [`  ${variable.name}: z`, ...calls.map((call) => `    .${call}`)].join("\n") + ",";
+}
+
+/**
+ * Builds the template variables and flags that place the environment variables of features
+ * in `src/env.ts` (`{{FEATURE_ENV_SCHEMA}}`) and `.env.example` (`{{FEATURE_ENV_EXAMPLE}}`).
+ * @param {readonly Feature[]} features - The features to add
+ * @returns {TemplateContext} The variables, and the `FEATURE_ENV` flag set when a feature reads the environment
+ * @throws {Error} If two features declare the same environment variable
+ */
+export function getFeatureContext(features: readonly Feature[]): TemplateContext {
+  const envVariables = features.flatMap((feature) => feature.env ?? []);
+  const duplicate = envVariables.find((variable, index) =>
+    envVariables.slice(0, index).some((other) => other.name === variable.name)
+  );
+  if (duplicate !== undefined) {
+    throw new Error(`Environment variable ${duplicate.name} is declared by more than one feature`);
+  }
+
+  return {
+    variables: {
+      FEATURE_ENV_SCHEMA: envVariables.map(renderEnvSchemaEntry).join("\n"),
+      FEATURE_ENV_EXAMPLE: envVariables
+        .map((variable) => `# ${variable.description}\n${variable.name}=${variable.default}`)
+        .join("\n\n"),
+    },
+    flags: { FEATURE_ENV: envVariables.length > 0 },
+  };
+}
+
+/**
+ * Adds the files, dependencies and scripts of features to the rendered project files.
+ * `package.json` is only rewritten when a feature contributes to it, so projects without
+ * features are unchanged.
+ * @param {readonly ProjectFile[]} files - The rendered files of the project
+ * @param {readonly Feature[]} features - The features to add, in order
+ * @param {FeatureContext} context - Choices, variables and flags passed to the features' files
+ * @returns {Promise<ProjectFile[]>} The project files with the features applied
+ * @throws {Error} If a feature replaces a file, script or dependency of the project or of another feature
+ */
+export async function applyFeatures(
+  files: readonly ProjectFile[],
+  features: readonly Feature[],
+  context: FeatureContext
+): Promise<ProjectFile[]> {
+  const fileOwners = new Map(files.map((file) => [file.relativePath, "the template"]));
+  const featureFiles: ProjectFile[] = [];
+  for (const feature of features) {
+    for (const file of (await feature.files?.(context)) ?? []) {
+      const owner = fileOwners.get(file.relativePath);
+      if (owner !== undefined) {
+        throw new Error(
+          `Feature "${feature.name}" cannot add ${file.relativePath}, which is already added by ${owner}`
+        );
+      }
+      fileOwners.set(file.relativePath, `feature "${feature.name}"`);
+      featureFiles.push(file);
+    }
+  }
+
+  const envExample = files.find((file) => file.relativePath === ".env.example")?.content ?? "";
+  for (const variable of features.flatMap((feature) => feature.env ?? [])) {
+    if (envExample.split("\n").filter((line) => line.startsWith(`${variable.name}=`)).length > 1) {
+      throw new Error(`Environment variable ${variable.name} of a feature is already read by the project`);
+    }
+  }
+
+  const contributesToPackageJson = features.some((feature) =>
+    PACKAGE_JSON_SECTIONS.some((section) => Object.keys(feature[section] ?? {}).length > 0)
+  );
+  if (!contributesToPackageJson) {
+    return [...files, ...featureFiles];
+  }
+
+  const packageJson = JSON.parse(
+    files.find((file) => file.relativePath === "package.json")?.content ?? "{}"
+  ) as Record<string, unknown>;
+  for (const section of PACKAGE_JSON_SECTIONS) {
+    const entries: Record<string, string> = { ...(packageJson[section] as Record<string, string> | undefined) };
+    for (const feature of features) {
+      for (const [name, value] of Object.entries(feature[section] ?? {})) {
+        if (entries[name] !== undefined && entries[name] !== value) {
+          throw new Error(
+            `Feature "${feature.name}" sets ${section}.${name} to "${value}", but it is already "${entries[name]}"`
+          );
+        }
+        entries[name] = value;
+      }
+    }
+    if (Object.keys(entries).length > 0) {
+      // Package managers keep dependencies sorted; scripts keep their order
+      packageJson[section] =
+        section === "scripts"
+          ? entries
+          : Object.fromEntries(Object.entries(entries).sort(([nameA], [nameB]) => nameA.localeCompare(nameB)));
+    }
+  }
+
+  const packageJsonFile: ProjectFile = {
+    relativePath: "package.json",
+    content: `${JSON.stringify(packageJson, null, 2)}\n`,
+  };
+  return [...files.map((file) => (file.relativePath === "package.json" ? packageJsonFile : file)), ...featureFiles];
+}
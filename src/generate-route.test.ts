@@ -0,0 +1,243 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import type { UserChoices } from "./prompts.js";
+
+const mockExeca = jest.fn<() => Promise<{ stdout: string; stderr: string }>>();
+jest.unstable_mockModule("execa", () => ({
+  execa: mockExeca,
+}));
+
+// Import after mocking
+const { planProject } = await import("./actions.js");
+const { generateRoute, getResourceNames, registerRouter, validateResourceName } = await import(
+  "./generate-route.js"
+);
+
+const baseChoices: UserChoices = {
+  projectName: "orders-api",
+  tsStrictness: "moderate",
+  moduleFormat: "esm",
+  nodeVersion: "22",
+  packageManager: "npm",
+  layout: "minimal",
+  testRunner: "vitest",
+  linter: "eslint-prettier",
+  security: [],
+  logging: false,
+  openapi: true,
+  docker: false,
+  initGit: false,
+};
+
+/**
+ * Renders a file of a project generated with the given choices.
+ * @param {UserChoices} choices - Choices the project is generated with
+ * @param {string} relativePath - Path of the file relative to the project root
+ * @returns {Promise<string>} The file content
+ */
+async function renderProjectFile(choices: UserChoices, relativePath: string): Promise<string> {
+  const { files } = await planProject(choices);
+  return files.find((file) => file.relativePath === relativePath)?.content ?? "";
+}
+
+describe("validateResourceName", () => {
+  it("should accept lowercase kebab-case names", () => {
+    expect(validateResourceName("users")).toBeUndefined();
+    expect(validateResourceName("order-items2")).toBeUndefined();
+  });
+
+  it("should reject empty names and other casings", () => {
+    expect(validateResourceName("")).toBe("Resource name is required");
+    for (const name of ["Users", "order_items", "order--items", "2fa", "users/"]) {
+      expect(validateResourceName(name)).toBe(
+        "Use lowercase letters, numbers and hyphens, starting with a letter (e.g. order-items)"
+      );
+    }
+  });
+});
+
+describe("getResourceNames", () => {
+  it("should derive identifiers from a kebab-case name", () => {
+    expect(getResourceNames("order-items")).toEqual({
+      file: "order-items",
+      pluralCamel: "orderItems",
+      pluralPascal: "OrderItems",
+      singularCamel: "orderItem",
+      singularPascal: "OrderItem",
+      pluralWords: "order items",
+      singularWords: "order item",
+    });
+  });
+
+  it("should singularize the common regular plurals", () => {
+    const singulars = ["categories", "addresses", "boxes", "statuses", "status", "keys", "data"].map(
+      (name) => getResourceNames(name).singularCamel
+    );
+
+    expect(singulars).toEqual(["category", "address", "box", "status", "status", "key", "data"]);
+  });
+});
+
+describe("registerRouter", () => {
+  const names = getResourceNames("order-items");
+
+  it("should mount the router in app.ts before the 404 handler in the minimal layout", async () => {
+    const source = await renderProjectFile(baseChoices, "src/app.ts");
+
+    const result = registerRouter(source, names, "minimal") ?? "";
+
+    expect(result).toContain('import { orderItemsRouter } from "./order-items.routes.js";\n\nexport const app');
+    expect(result).toContain("app.use(openApiRouter);\napp.use(orderItemsRouter);\n\n// Keep these last");
+  });
+
+  it("should add the router after the other routers in the layered layout", async () => {
+    const source = await renderProjectFile({ ...baseChoices, layout: "layered" }, "src/routes/index.ts");
+
+    const result = registerRouter(source, names, "layered");
+
+    expect(result).toContain(
+      'import { rootRouter } from "./root.routes.js";\nimport { orderItemsRouter } from "./order-items.routes.js";'
+    );
+    expect(result).toMatch(/router\.use\(rootRouter\);\nrouter\.use\(orderItemsRouter\);\n$/);
+  });
+
+  it("should place the import after a multi-line import", () => {
+    const source = ['import {\n  a,\n  b,\n} from "./a.js";', "", "app.use(a);", "app.use(notFoundHandler);"].join("\n");
+
+    expect(registerRouter(source, names, "minimal")).toBe(
+      [
+        'import {\n  a,\n  b,\n} from "./a.js";',
+        'import { orderItemsRouter } from "./order-items.routes.js";',
+        "",
+        "app.use(a);",
+        "app.use(orderItemsRouter);",
+        "app.use(notFoundHandler);",
+      ].join("\n")
+    );
+  });
+
+  it("should leave a file that already imports the router unchanged", () => {
+    const source = 'import { orderItemsRouter } from "./order-items.routes.js";\nrouter.use(orderItemsRouter);\n';
+
+    expect(registerRouter(source, names, "layered")).toBe(source);
+  });
+
+  it("should return null when the file does not have the expected shape", () => {
+    expect(registerRouter('import express from "express";\n', names, "minimal")).toBeNull();
+    expect(registerRouter("router.use(healthRouter);\n", names, "layered")).toBeNull();
+  });
+});
+
+describe("generateRoute", () => {
+  let projectPath: string;
+
+  /**
+   * Writes a generated project into the temporary project directory.
+   * @param {UserChoices} choices - Choices the project is generated with
+   * @returns {Promise<void>} Resolves when every file is written
+   */
+  async function generateProject(choices: UserChoices): Promise<void> {
+    const { files } = await planProject(choices);
+    for (const file of files) {
+      await fs.outputFile(path.join(projectPath, file.relativePath), file.content);
+    }
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "" });
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "generate-route-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it("should write the router, service and test of the minimal layout and register the router", async () => {
+    await generateProject(baseChoices);
+
+    const route = await generateRoute(projectPath, "order-items");
+
+    expect(route.files.map((file) => file.relativePath)).toEqual([
+      "src/order-items.routes.ts",
+      "src/order-items.test.ts",
+      "src/order-items.service.ts",
+    ]);
+    expect(route).toMatchObject({
+      routerName: "orderItemsRouter",
+      entryFile: "src/app.ts",
+      isRegistered: true,
+      isFormatted: true,
+    });
+    const router = await fs.readFile(path.join(projectPath, "src/order-items.routes.ts"), "utf-8");
+    expect(router).toContain("defineRoute(orderItemsRouter, {");
+    expect(router).toContain("throw new HttpError(404, `No order item with id ${request.params.id}`);");
+    expect(await fs.readFile(path.join(projectPath, "src/app.ts"), "utf-8")).toContain("app.use(orderItemsRouter);");
+  });
+
+  it("should write a controller and service without OpenAPI or tests in the layered layout", async () => {
+    await generateProject({ ...baseChoices, layout: "layered", testRunner: "none", openapi: false });
+
+    const route = await generateRoute(projectPath, "categories");
+
+    expect(route.files.map((file) => file.relativePath)).toEqual([
+      "src/controllers/categories.controller.ts",
+      "src/routes/categories.routes.ts",
+      "src/services/categories.service.ts",
+    ]);
+    expect(route.entryFile).toBe("src/routes/index.ts");
+    const router = await fs.readFile(path.join(projectPath, "src/routes/categories.routes.ts"), "utf-8");
+    expect(router).toContain('categoriesRouter.delete("/categories/:id", deleteCategory);');
+    expect(router).not.toContain("defineRoute");
+  });
+
+  it("should format the written files with the project's formatter", async () => {
+    await generateProject({ ...baseChoices, linter: "biome", packageManager: "pnpm" });
+    await fs.outputFile(path.join(projectPath, "pnpm-lock.yaml"), "lockfileVersion: '9.0'\n");
+
+    await generateRoute(projectPath, "users");
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "pnpm",
+      [
+        "exec",
+        "biome",
+        "format",
+        "--write",
+        "src/users.routes.ts",
+        "src/users.test.ts",
+        "src/users.service.ts",
+        "src/app.ts",
+      ],
+      expect.objectContaining({ cwd: projectPath })
+    );
+  });
+
+  it("should report when the formatter fails", async () => {
+    await generateProject(baseChoices);
+    mockExeca.mockRejectedValue(new Error("prettier: command not found"));
+
+    const route = await generateRoute(projectPath, "users");
+
+    expect(route.isFormatted).toBe(false);
+  });
+
+  it("should refuse to overwrite existing files without force", async () => {
+    await generateProject(baseChoices);
+    await fs.outputFile(path.join(projectPath, "src/users.service.ts"), "// custom\n");
+
+    await expect(generateRoute(projectPath, "users")).rejects.toThrow(
+      "These files already exist: src/users.service.ts. Re-run with --force to overwrite them."
+    );
+    expect(fs.existsSync(path.join(projectPath, "src/users.routes.ts"))).toBe(false);
+
+    await generateRoute(projectPath, "users", { force: true });
+    expect(await fs.readFile(path.join(projectPath, "src/users.service.ts"), "utf-8")).toContain("usersService");
+  });
+
+  it("should reject invalid resource names", async () => {
+    await expect(generateRoute(projectPath, "Users")).rejects.toThrow('Invalid resource name "Users"');
+  });
+});
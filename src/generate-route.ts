@@ -0,0 +1,270 @@
+import { execa } from "execa";
+import fs from "fs-extra";
+import path from "path";
+import { buildTemplateContext, getTemplatesDirectory, writeProjectFiles } from "./actions.js";
+import { detectProjectChoices } from "./add-feature.js";
+import { getExecCommand } from "./package-managers.js";
+import type { Linter, ProjectLayout, UserChoices } from "./prompts.js";
+import { readTemplateManifest, renderTemplateDirectory, type ProjectFile } from "./template-engine.js";
+
+/** Identifiers derived from a resource name such as `order-items` */
+export interface ResourceNames {
+  /** File name and URL path segment, e.g. `order-items` */
+  readonly file: string;
+  /** e.g. `orderItems` */
+  readonly pluralCamel: string;
+  /** e.g. `OrderItems` */
+  readonly pluralPascal: string;
+  /** e.g. `orderItem` */
+  readonly singularCamel: string;
+  /** e.g. `OrderItem` */
+  readonly singularPascal: string;
+  /** e.g. `order items` */
+  readonly pluralWords: string;
+  /** e.g. `order item` */
+  readonly singularWords: string;
+}
+
+/** Result of `express-ts-wizard generate route` */
+export interface GeneratedRoute {
+  readonly names: ResourceNames;
+  /** Name of the exported router, e.g. `orderItemsRouter` */
+  readonly routerName: string;
+  /** Files written for the resource */
+  readonly files: readonly ProjectFile[];
+  /** File the router is registered in */
+  readonly entryFile: string;
+  /** Whether the router was registered automatically; false if the entry file has an unexpected shape */
+  readonly isRegistered: boolean;
+  /** False if the project's formatter could not be run on the written files */
+  readonly isFormatted: boolean;
+}
+
+/** Options of `express-ts-wizard generate route` */
+export interface GenerateRouteOptions {
+  /** Overwrite files of the resource that already exist */
+  readonly force?: boolean;
+}
+
+/** Formatter of each lint toolchain, run on the written files since line breaks depend on the resource name */
+const FORMAT_COMMANDS: Record<Exclude<Linter, "none">, readonly [string, ...string[]]> = {
+  "eslint-prettier": ["prettier", "--write"],
+  biome: ["biome", "format", "--write"],
+};
+
+const RESOURCE_NAME_PATTERN = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+
+/**
+ * Validates a resource name.
+ * @param {string | undefined} value - The resource name to validate
+ * @returns {string | undefined} An error message, or undefined if the name is valid
+ */
+export function validateResourceName(value: string | undefined): string | undefined {
+  if (!value) return "Resource name is required";
+  if (!RESOURCE_NAME_PATTERN.test(value)) {
+    return "Use lowercase letters, numbers and hyphens, starting with a letter (e.g. order-items)";
+  }
+  return undefined;
+}
+
+/**
+ * Returns the singular of an English plural noun, for the common regular forms.
+ * @param {string} word - A lowercase word, e.g. `categories`
+ * @returns {string} The singular, e.g. `category`; the word itself if it does not look plural
+ */
+function singularize(word: string): string {
+  if (/[^aeiou]ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|sh|ch|x|z|us)es$/.test(word)) return word.slice(0, -2);
+  if (/(?:ss|us|is)$/.test(word)) return word;
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Derives the identifiers used in the generated code from a resource name.
+ * The last word is singularized for names of single items, e.g. `order-items` gives `OrderItem`.
+ * @param {string} name - A valid resource name, e.g. `order-items`
+ * @returns {ResourceNames} The derived identifiers
+ */
+export function getResourceNames(name: string): ResourceNames {
+  const pluralWords = name.split("-");
+  const singularWords = [...pluralWords.slice(0, -1), singularize(pluralWords.at(-1) ?? "")];
+  const toPascal = (words: readonly string[]): string =>
+    words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+  const toCamel = (words: readonly string[]): string => {
+    const pascal = toPascal(words);
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  };
+
+  return {
+    file: name,
+    pluralCamel: toCamel(pluralWords),
+    pluralPascal: toPascal(pluralWords),
+    singularCamel: toCamel(singularWords),
+    singularPascal: toPascal(singularWords),
+    pluralWords: pluralWords.join(" "),
+    singularWords: singularWords.join(" "),
+  };
+}
+
+/**
+ * Returns the file that mounts the routers of a project.
+ * @param {ProjectLayout} layout - The project layout
+ * @returns {string} Path relative to the project root
+ */
+export function getRouterEntryFile(layout: ProjectLayout): string {
+  return layout === "layered" ? "src/routes/index.ts" : "src/app.ts";
+}
+
+/**
+ * Finds the last line matching a predicate.
+ * @param {readonly string[]} lines - The lines to search
+ * @param {(line: string) => boolean} predicate - Test applied to each line
+ * @returns {number} The index of the last matching line, or -1 if no line matches
+ */
+function findLastLineIndex(lines: readonly string[], predicate: (line: string) => boolean): number {
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (predicate(lines[index])) return index;
+  }
+  return -1;
+}
+
+/**
+ * Adds the import and registration of a router to the file that mounts the routers.
+ * In the layered layout the router is added after the other `router.use` calls of
+ * `src/routes/index.ts`; in the minimal layout it is added to `src/app.ts`, before the
+ * 404 and error handlers.
+ * @param {string} source - Content of the entry file
+ * @param {ResourceNames} names - Identifiers of the resource
+ * @param {ProjectLayout} layout - The project layout
+ * @returns {string | null} The updated content, or null if the file does not have the expected shape
+ */
+export function registerRouter(source: string, names: ResourceNames, layout: ProjectLayout): string | null {
+  const routerName = `${names.pluralCamel}Router`;
+  const importLine = `import { ${routerName} } from "./${names.file}.routes.js";`;
+  const lines = source.split("\n");
+  if (lines.includes(importLine)) {
+    return source;
+  }
+
+  // The last import may span several lines, e.g. `import {\n  a,\n  b,\n} from "./a.js";`
+  const lastImportIndex = findLastLineIndex(lines, (line) => line.startsWith("import "));
+  const importEndIndex = lines.findIndex((line, index) => index >= lastImportIndex && line.trimEnd().endsWith(";"));
+
+  let useIndex: number;
+  if (layout === "layered") {
+    useIndex = findLastLineIndex(lines, (line) => line.startsWith("router.use(")) + 1;
+  } else {
+    useIndex = lines.indexOf("app.use(notFoundHandler);");
+    // Skip the blank line and comment above the 404 handler
+    while (useIndex > 0 && (lines[useIndex - 1].trim() === "" || lines[useIndex - 1].startsWith("//"))) {
+      useIndex--;
+    }
+  }
+
+  if (lastImportIndex < 0 || importEndIndex < 0 || useIndex <= importEndIndex) {
+    return null;
+  }
+
+  return [
+    ...lines.slice(0, importEndIndex + 1),
+    importLine,
+    ...lines.slice(importEndIndex + 1, useIndex),
+    `${layout === "layered" ? "router" : "app"}.use(${routerName});`,
+    ...lines.slice(useIndex),
+  ].join("\n");
+}
+
+/**
+ * Formats files with the formatter of the project, if it has one.
+ * @param {string} projectPath - Path to the project directory
+ * @param {UserChoices} choices - Choices detected from the project
+ * @param {readonly string[]} relativePaths - Files to format, relative to the project root
+ * @returns {Promise<boolean>} False if the formatter failed, e.g. because dependencies are not installed
+ */
+async function formatFiles(projectPath: string, choices: UserChoices, relativePaths: readonly string[]): Promise<boolean> {
+  if (choices.linter === "none") {
+    return true;
+  }
+
+  const [binary, ...args] = FORMAT_COMMANDS[choices.linter];
+  const [command, ...commandArgs] = getExecCommand(choices.packageManager, binary, [...args, ...relativePaths]);
+  try {
+    await execa(command, commandArgs, { cwd: projectPath, stdio: "pipe" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scaffolds a CRUD resource in an existing project: a typed router with list, get, create,
+ * update and delete handlers, an in-memory service, body validation and a test when the
+ * project has tests. The router is registered in the file that mounts the routers, and the
+ * written files are formatted with the project's formatter.
+ * @param {string} projectPath - Path to the project directory
+ * @param {string} name - The resource name, e.g. `order-items`
+ * @param {GenerateRouteOptions} options - Whether to overwrite existing files
+ * @returns {Promise<GeneratedRoute>} The written files and where the router was registered
+ * @throws {Error} If the name is invalid, the project cannot be read or files exist without `force`
+ */
+export async function generateRoute(
+  projectPath: string,
+  name: string,
+  options: GenerateRouteOptions = {}
+): Promise<GeneratedRoute> {
+  const nameError = validateResourceName(name);
+  if (nameError) {
+    throw new Error(`Invalid resource name "${name}": ${nameError}`);
+  }
+
+  const choices = await detectProjectChoices(projectPath);
+  const names = getResourceNames(name);
+  const projectContext = buildTemplateContext(choices);
+  const routeTemplatesDirectory = path.join(getTemplatesDirectory(), "route");
+  const files = await renderTemplateDirectory(
+    path.join(routeTemplatesDirectory, "files"),
+    {
+      variables: {
+        ...projectContext.variables,
+        RESOURCE_FILE: names.file,
+        RESOURCE_PLURAL_CAMEL: names.pluralCamel,
+        RESOURCE_PLURAL_PASCAL: names.pluralPascal,
+        RESOURCE_SINGULAR_CAMEL: names.singularCamel,
+        RESOURCE_SINGULAR_PASCAL: names.singularPascal,
+        RESOURCE_PLURAL_WORDS: names.pluralWords,
+        RESOURCE_SINGULAR_WORDS: names.singularWords,
+        SERVICES_DIR: choices.layout === "layered" ? "src/services" : "src",
+      },
+      flags: projectContext.flags,
+    },
+    await readTemplateManifest(routeTemplatesDirectory)
+  );
+
+  const existingFiles = files
+    .map((file) => file.relativePath)
+    .filter((relativePath) => fs.existsSync(path.join(projectPath, relativePath)));
+  if (existingFiles.length > 0 && !options.force) {
+    throw new Error(`These files already exist: ${existingFiles.join(", ")}. Re-run with --force to overwrite them.`);
+  }
+
+  const entryFile = getRouterEntryFile(choices.layout);
+  const entryFilePath = path.join(projectPath, entryFile);
+  const entrySource = fs.existsSync(entryFilePath) ? await fs.readFile(entryFilePath, "utf-8") : "";
+  const registeredSource = registerRouter(entrySource, names, choices.layout);
+
+  const writtenFiles = [
+    ...files,
+    ...(registeredSource === null ? [] : [{ relativePath: entryFile, content: registeredSource }]),
+  ];
+  await writeProjectFiles(projectPath, writtenFiles);
+
+  return {
+    names,
+    routerName: `${names.pluralCamel}Router`,
+    files,
+    entryFile,
+    isRegistered: registeredSource !== null,
+    isFormatted: await formatFiles(projectPath, choices, writtenFiles.map((file) => file.relativePath)),
+  };
+}
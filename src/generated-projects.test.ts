@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { execa } from "execa";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { createProject } from "./actions.js";
+import { DEFAULT_CHOICES } from "./prompts.js";
+
+/** Installing the dependencies of a generated project downloads them from the registry */
+const INSTALL_TIMEOUT_MS = 600_000;
+
+describe("generated projects", () => {
+  let workspacePath: string;
+
+  beforeEach(async () => {
+    workspacePath = await fs.mkdtemp(path.join(os.tmpdir(), "generated-projects-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspacePath);
+  });
+
+  it(
+    "should pass the lint script with strict TypeScript, Vitest and ESLint, test files included",
+    async () => {
+      const { projectPath } = await createProject(
+        {
+          ...DEFAULT_CHOICES,
+          projectName: "strict-app",
+          tsStrictness: "strict",
+          packageManager: "npm",
+          testRunner: "vitest",
+          linter: "eslint-prettier",
+          initGit: false,
+        },
+        { cwd: workspacePath }
+      );
+
+      const lint = await execa("npm", ["run", "lint"], { cwd: projectPath, all: true, reject: false });
+
+      // Compared as text so that a failure shows which rules the generated files break
+      expect(lint.exitCode === 0 ? "" : lint.all).toBe("");
+    },
+    INSTALL_TIMEOUT_MS
+  );
+});
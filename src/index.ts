@@ -2,41 +2,223 @@
 
 import * as p from "@clack/prompts";
 import kleur from "kleur";
-import { runPrompts } from "./prompts.js";
-import { createProject, getTsStrictnessDescription } from "./actions.js";
+import path from "path";
+import {
+  ADD_HELP_TEXT,
+  GENERATE_HELP_TEXT,
+  HELP_TEXT,
+  parseAddArgs,
+  parseCliArgs,
+  parseGenerateArgs,
+  resolveTemplateValues,
+  resolveUserChoices,
+  type AddCommandOptions,
+  type CliOptions,
+  type GenerateCommandOptions,
+} from "./cli.js";
+import {
+  createProject,
+  getTemplatesDirectory,
+  getTsStrictnessDescription,
+  type ProjectTemplates,
+} from "./actions.js";
+import { addFeature } from "./add-feature.js";
+import { loadCustomTemplate } from "./custom-template.js";
+import { displayProjectPlan } from "./dry-run.js";
+import { DirectoryConflictError, GenerationCancelledError, GenerationError, VerificationError } from "./errors.js";
+import { loadFeaturePlugins } from "./feature-plugins.js";
+import { getFeatureManifest, resolveFeatures, type Feature } from "./features.js";
+import { generateRoute } from "./generate-route.js";
+import { getRunScriptCommand } from "./package-managers.js";
+import { createSpinnerProgress } from "./progress.js";
+import { getProjectDirectoryName, promptConflictStrategy, type UserChoices } from "./prompts.js";
 
 /**
  * Displays the final success message with next steps for the user.
- * @param {string} projectName - Name of the created project
- * @param {string} strictnessDescription - Human-readable TypeScript strictness level
+ * @param {UserChoices} choices - User selections the project was created with
+ * @param {readonly Feature[]} features - Plugin features added to the project, whose next steps are listed too
  * @returns {void}
  */
-function displaySuccessMessage(projectName: string, strictnessDescription: string): void {
+function displaySuccessMessage(choices: UserChoices, features: readonly Feature[]): void {
+  const { projectName, packageManager, testRunner, linter, docker, tsStrictness } = choices;
+  const directory = choices.directory ?? getProjectDirectoryName(projectName);
+  const scripts: readonly (readonly [string, string])[] = [
+    ["dev", "Start server with hot-reload"],
+    ["build", "Compile to JavaScript"],
+    ["start", "Run the compiled version"],
+    ["type-check", "Check types without compiling"],
+    ...(testRunner === "none" ? [] : [["test", "Run the tests"] as const]),
+    ...(linter === "none"
+      ? []
+      : [["lint", "Lint the code"] as const, ["format", "Format the code"] as const]),
+  ];
+  const steps: readonly (readonly [string, string])[] = [
+    ...scripts.map(([script, description]) => [getRunScriptCommand(packageManager, script), description] as const),
+    ...(docker ? [["docker compose up --build", "Run in a container"] as const] : []),
+    ...features.flatMap((feature) =>
+      (feature.nextSteps ?? []).map((step) => [step.command, step.description] as const)
+    ),
+  ];
+  const commandWidth = Math.max(...steps.map(([command]) => command.length));
+
   const nextSteps = [
-    `cd ${projectName}`,
-    "npm run dev        → Start server with hot-reload",
-    "npm run build      → Compile to JavaScript",
-    "npm run start      → Run the compiled version",
-    "npm run type-check → Check types without compiling",
+    ...(path.resolve(directory) === process.cwd() ? [] : [`cd ${directory}`]),
+    ...steps.map(([command, description]) => `${command.padEnd(commandWidth)} → ${description}`),
   ];
 
   p.note(nextSteps.join("\n"), "Next steps");
 
   p.outro(
     kleur.green("✔") +
-      ` Project ${kleur.cyan(projectName)} created with TypeScript ${kleur.yellow(strictnessDescription)}`
+      ` Project ${kleur.cyan(projectName)} created with TypeScript ${kleur.yellow(getTsStrictnessDescription(tsStrictness))}`
   );
 }
 
+/**
+ * Runs `express-ts-wizard add <feature>` in the current directory.
+ * @param {readonly string[]} argv - Arguments after `add`
+ * @returns {Promise<void>} Resolves when the feature is added or exits on error
+ */
+async function runAddCommand(argv: readonly string[]): Promise<void> {
+  let options: AddCommandOptions;
+  try {
+    options = parseAddArgs(argv);
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const { feature } = options;
+  if (options.help || feature === undefined) {
+    console.log(ADD_HELP_TEXT);
+    process.exit(0);
+  }
+
+  try {
+    const plan = await addFeature(process.cwd(), feature, options);
+    const changes = [
+      ...plan.createdFiles.map((file) => `${kleur.green("+")} ${file.relativePath}`),
+      ...plan.updatedFiles.map((file) => `${kleur.yellow("~")} ${file.relativePath}`),
+      ...(plan.packageJson === null ? [] : [`${kleur.yellow("~")} package.json`]),
+    ];
+    p.note(changes.join("\n") || "No files changed", "Changes");
+    if (plan.keptEntries.length > 0) {
+      p.log.warn(
+        `Kept your version of ${plan.keptEntries.join(", ")} in package.json. Compare it with a freshly generated project to pick up the ${feature} changes.`
+      );
+    }
+    p.outro(`${kleur.green("✔")} Added ${kleur.cyan(feature)} to ${kleur.cyan(plan.choices.projectName)}`);
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs `express-ts-wizard generate route <name>` in the current directory.
+ * @param {readonly string[]} argv - Arguments after `generate`
+ * @returns {Promise<void>} Resolves when the resource is generated or exits on error
+ */
+async function runGenerateCommand(argv: readonly string[]): Promise<void> {
+  let options: GenerateCommandOptions;
+  try {
+    options = parseGenerateArgs(argv);
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const { name } = options;
+  if (options.help || name === undefined) {
+    console.log(GENERATE_HELP_TEXT);
+    process.exit(0);
+  }
+
+  try {
+    const route = await generateRoute(process.cwd(), name, { force: options.force });
+    const changes = [
+      ...route.files.map((file) => `${kleur.green("+")} ${file.relativePath}`),
+      ...(route.isRegistered ? [`${kleur.yellow("~")} ${route.entryFile}`] : []),
+    ];
+    p.note(changes.join("\n"), "Changes");
+    if (!route.isRegistered) {
+      p.log.warn(
+        `Could not register the router automatically. Import ${route.routerName} from ./${route.names.file}.routes.js in ${route.entryFile} and mount it with use(${route.routerName}).`
+      );
+    }
+    if (!route.isFormatted) {
+      p.log.warn("Could not format the generated files. Run the format script of the project.");
+    }
+    p.outro(`${kleur.green("✔")} Generated ${kleur.cyan(`/${route.names.file}`)} routes`);
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
 /**
  * Main entry point for the CLI wizard.
- * Orchestrates the prompt collection, project creation, and success messaging.
+ * Orchestrates the flag parsing, prompt collection, project creation, and success messaging.
+ * The `add` and `generate` subcommands are dispatched to {@link runAddCommand} and {@link runGenerateCommand}.
  * @returns {Promise<void>} Resolves when the CLI completes or exits on error
  */
 async function main(): Promise<void> {
-  console.clear();
+  const argv = process.argv.slice(2);
+  if (argv[0] === "add") {
+    await runAddCommand(argv.slice(1));
+    return;
+  }
+  if (argv[0] === "generate") {
+    await runGenerateCommand(argv.slice(1));
+    return;
+  }
+
+  const isInteractive = Boolean(process.stdin.isTTY && process.stdout.isTTY);
 
-  const choices = await runPrompts();
+  let options: CliOptions;
+  let choices: UserChoices | null;
+  let templates: ProjectTemplates | undefined;
+  let features: Feature[] = [];
+  try {
+    options = parseCliArgs(argv);
+    if (options.help) {
+      console.log(HELP_TEXT);
+      process.exit(0);
+    }
+
+    if (isInteractive) {
+      console.clear();
+    }
+    // Validate the template and plugins before asking anything, so a broken one fails fast
+    const template = options.template === undefined ? undefined : await loadCustomTemplate(options.template);
+    // Plugins run their own code, so they are only loaded when features are requested or can be picked
+    const requestedFeatures = options.choices.features;
+    const needsPlugins =
+      requestedFeatures === undefined ? isInteractive && !options.yes : requestedFeatures.length > 0;
+    const availableFeatures = needsPlugins
+      ? await loadFeaturePlugins({ onWarning: (message) => p.log.warn(`${message}\nThe plugin was skipped.`) })
+      : [];
+    choices = await resolveUserChoices(options, isInteractive, availableFeatures);
+    if (choices) {
+      features = resolveFeatures(availableFeatures, choices.features ?? []);
+    }
+    if (choices && (template || features.length > 0)) {
+      // The prompts of the template come first, then those of each feature
+      const featureManifest = getFeatureManifest(features);
+      const manifest = {
+        variables: { ...template?.manifest.variables, ...featureManifest.variables },
+        prompts: [...(template?.manifest.prompts ?? []), ...(featureManifest.prompts ?? [])],
+      };
+      templates = {
+        directory: template?.directory ?? getTemplatesDirectory(),
+        values: await resolveTemplateValues(manifest, options, isInteractive),
+        features,
+      };
+    }
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
 
   if (!choices) {
     process.exit(0);
@@ -44,14 +226,51 @@ async function main(): Promise<void> {
 
   console.log();
 
+  // Ctrl+C cancels the generation, which removes the partially generated project
+  const controller = new AbortController();
+  const handleInterrupt = (): void => controller.abort();
+  process.once("SIGINT", handleInterrupt);
+
   try {
-    await createProject(choices);
-    const strictnessDescription = getTsStrictnessDescription(choices.tsStrictness);
-    displaySuccessMessage(choices.projectName, strictnessDescription);
+    const result = await createProject(choices, {
+      keepOnFailure: options.keepOnFailure,
+      verify: options.verify,
+      dryRun: options.dryRun,
+      templates,
+      // Without a terminal (or with --yes) nobody can be asked, so existing files are never touched by default
+      onConflict: options.onConflict ?? (isInteractive && !options.yes ? promptConflictStrategy : "abort"),
+      onProgress: createSpinnerProgress(p.spinner(), controller.signal),
+      signal: controller.signal,
+    });
+    if (options.dryRun) {
+      displayProjectPlan(result);
+      p.outro("Dry run complete. Nothing was written to disk.");
+      return;
+    }
+    displaySuccessMessage(choices, features);
   } catch (error) {
+    if (error instanceof DirectoryConflictError) {
+      p.cancel(`${error.message}. Use --on-conflict merge or --on-conflict overwrite to generate anyway.`);
+      process.exit(1);
+    }
+    if ((error instanceof GenerationError || error instanceof GenerationCancelledError) && error.keptPath) {
+      p.log.warn(`Partially generated project kept at ${error.keptPath}`);
+    }
+    if (error instanceof GenerationCancelledError) {
+      p.cancel("Operation cancelled.");
+      process.exit(130);
+    }
+    if (error instanceof GenerationError && error.cause instanceof VerificationError) {
+      // The output of the failed tool says what is wrong with the project better than a stack trace
+      console.error(error.cause.output.trimEnd());
+      p.cancel(error.message);
+      process.exit(1);
+    }
     p.cancel("Error creating project");
     console.error(error);
     process.exit(1);
+  } finally {
+    process.removeListener("SIGINT", handleInterrupt);
   }
 }
 
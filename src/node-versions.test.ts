@@ -0,0 +1,32 @@
+import { describe, it, expect } from "@jest/globals";
+import { detectNodeVersion, isNodeVersion } from "./node-versions.js";
+
+describe("detectNodeVersion", () => {
+  it("should use the running version when it is supported", () => {
+    expect(detectNodeVersion("v20.19.5")).toBe("20");
+    expect(detectNodeVersion("v22.12.0")).toBe("22");
+    expect(detectNodeVersion("v24.0.0")).toBe("24");
+  });
+
+  it("should fall back to the closest older version for odd and newer releases", () => {
+    expect(detectNodeVersion("v23.11.0")).toBe("22");
+    expect(detectNodeVersion("v26.1.0")).toBe("24");
+  });
+
+  it("should use the oldest supported version for older releases", () => {
+    expect(detectNodeVersion("v18.20.4")).toBe("20");
+  });
+});
+
+describe("isNodeVersion", () => {
+  it("should accept supported versions", () => {
+    expect(isNodeVersion("20")).toBe(true);
+    expect(isNodeVersion("22")).toBe(true);
+    expect(isNodeVersion("24")).toBe(true);
+  });
+
+  it("should reject unsupported versions", () => {
+    expect(isNodeVersion("18")).toBe(false);
+    expect(isNodeVersion("v22")).toBe(false);
+  });
+});
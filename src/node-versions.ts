@@ -0,0 +1,25 @@
+/** Node.js LTS versions the generated project can target */
+export type NodeVersion = "20" | "22" | "24";
+
+/** All supported Node.js versions, oldest first */
+export const NODE_VERSIONS: readonly NodeVersion[] = ["20", "22", "24"];
+
+/**
+ * Checks whether a value is a supported Node.js version.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a supported major version
+ */
+export function isNodeVersion(value: string): value is NodeVersion {
+  return (NODE_VERSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the supported Node.js version closest to the one running the wizard: the newest
+ * version that is not newer than the running one, or the oldest supported version.
+ * @param {string} version - A Node.js version string such as `v22.12.0`
+ * @returns {NodeVersion} The Node.js version to target
+ */
+export function detectNodeVersion(version: string = process.version): NodeVersion {
+  const major = Number.parseInt(version.replace(/^v/, ""), 10);
+  return NODE_VERSIONS.filter((nodeVersion) => Number(nodeVersion) <= major).at(-1) ?? NODE_VERSIONS[0];
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  detectPackageManager,
+  getExecCommand,
+  getPackageManagerConfig,
+  getRunScriptCommand,
+  isPackageManager,
+} from "./package-managers.js";
+
+describe("detectPackageManager", () => {
+  it("should detect pnpm from its user agent", () => {
+    expect(detectPackageManager("pnpm/9.15.0 npm/? node/v22.12.0 linux x64")).toBe("pnpm");
+  });
+
+  it("should detect yarn from its user agent", () => {
+    expect(detectPackageManager("yarn/1.22.22 npm/? node/v22.12.0 linux x64")).toBe("yarn");
+  });
+
+  it("should detect bun from its user agent", () => {
+    expect(detectPackageManager("bun/1.2.0 npm/? node/v22.12.0 linux x64")).toBe("bun");
+  });
+
+  it("should detect npm from its user agent", () => {
+    expect(detectPackageManager("npm/10.9.0 node/v22.12.0 linux x64 workspaces/false")).toBe("npm");
+  });
+
+  it("should fall back to npm when the user agent is missing or unknown", () => {
+    expect(detectPackageManager(undefined)).toBe("npm");
+    expect(detectPackageManager("")).toBe("npm");
+    expect(detectPackageManager("deno/2.0.0")).toBe("npm");
+  });
+});
+
+describe("isPackageManager", () => {
+  it("should accept supported package managers", () => {
+    expect(isPackageManager("npm")).toBe(true);
+    expect(isPackageManager("pnpm")).toBe(true);
+    expect(isPackageManager("yarn")).toBe(true);
+    expect(isPackageManager("bun")).toBe(true);
+  });
+
+  it("should reject unsupported values", () => {
+    expect(isPackageManager("deno")).toBe(false);
+  });
+});
+
+describe("getPackageManagerConfig", () => {
+  it("should generate the npm lock file before running npm ci", () => {
+    expect(getPackageManagerConfig("npm")).toEqual({
+      lockFile: "package-lock.json",
+      installCommands: [
+        ["npm", "install", "--package-lock-only"],
+        ["npm", "ci"],
+      ],
+      ciCommand: "npm ci",
+      pruneCommand: "npm prune --omit=dev",
+    });
+  });
+
+  it("should use a frozen lock file for the clean install of every other package manager", () => {
+    expect(getPackageManagerConfig("pnpm").ciCommand).toBe("pnpm install --frozen-lockfile");
+    expect(getPackageManagerConfig("yarn").ciCommand).toBe("yarn install --frozen-lockfile");
+    expect(getPackageManagerConfig("bun").ciCommand).toBe("bun install --frozen-lockfile");
+  });
+
+  it("should return the lock file of each package manager", () => {
+    expect(getPackageManagerConfig("pnpm").lockFile).toBe("pnpm-lock.yaml");
+    expect(getPackageManagerConfig("yarn").lockFile).toBe("yarn.lock");
+    expect(getPackageManagerConfig("bun").lockFile).toBe("bun.lock");
+  });
+
+  it("should keep the lock file frozen when pruning devDependencies with yarn and bun", () => {
+    expect(getPackageManagerConfig("pnpm").pruneCommand).toBe("pnpm prune --prod");
+    expect(getPackageManagerConfig("yarn").pruneCommand).toBe("yarn install --frozen-lockfile --production");
+    expect(getPackageManagerConfig("bun").pruneCommand).toBe("bun install --frozen-lockfile --production");
+  });
+});
+
+describe("getRunScriptCommand", () => {
+  it("should use the run subcommand for npm, pnpm and bun", () => {
+    expect(getRunScriptCommand("npm", "dev")).toBe("npm run dev");
+    expect(getRunScriptCommand("pnpm", "dev")).toBe("pnpm run dev");
+    expect(getRunScriptCommand("bun", "dev")).toBe("bun run dev");
+  });
+
+  it("should run scripts directly with yarn", () => {
+    expect(getRunScriptCommand("yarn", "build")).toBe("yarn build");
+  });
+});
+
+describe("getExecCommand", () => {
+  it("should run project binaries through the package manager", () => {
+    expect(getExecCommand("npm", "prettier", ["--write", "src"])).toEqual([
+      "npx",
+      "--no",
+      "--",
+      "prettier",
+      "--write",
+      "src",
+    ]);
+    expect(getExecCommand("pnpm", "prettier", ["--write"])).toEqual(["pnpm", "exec", "prettier", "--write"]);
+    expect(getExecCommand("yarn", "biome", ["format"])).toEqual(["yarn", "biome", "format"]);
+    expect(getExecCommand("bun", "biome", [])).toEqual(["bun", "x", "biome"]);
+  });
+});
@@ -0,0 +1,123 @@
+/** Supported package managers for installing the generated project */
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+/** All supported package managers, in prompt order */
+export const PACKAGE_MANAGERS: readonly PackageManager[] = ["npm", "pnpm", "yarn", "bun"];
+
+/** A command and its arguments, ready to be passed to execa */
+export type Command = readonly [string, ...string[]];
+
+/** How a package manager installs dependencies and runs scripts */
+export interface PackageManagerConfig {
+  /** Lock file the install step must produce */
+  readonly lockFile: string;
+  /** Commands that generate the lock file and install dependencies, run in order */
+  readonly installCommands: readonly Command[];
+  /** Clean install from the lock file, used by the generated `install:ci` script */
+  readonly ciCommand: string;
+  /** Removes devDependencies after the build, used by the generated Dockerfile */
+  readonly pruneCommand: string;
+}
+
+const PACKAGE_MANAGER_CONFIGS: Record<PackageManager, PackageManagerConfig> = {
+  // npm install with stdio: "pipe" skips optional native packages, so the lock file
+  // is generated first and npm ci performs the actual install
+  npm: {
+    lockFile: "package-lock.json",
+    installCommands: [
+      ["npm", "install", "--package-lock-only"],
+      ["npm", "ci"],
+    ],
+    ciCommand: "npm ci",
+    pruneCommand: "npm prune --omit=dev",
+  },
+  pnpm: {
+    lockFile: "pnpm-lock.yaml",
+    installCommands: [["pnpm", "install"]],
+    ciCommand: "pnpm install --frozen-lockfile",
+    pruneCommand: "pnpm prune --prod",
+  },
+  yarn: {
+    lockFile: "yarn.lock",
+    installCommands: [["yarn", "install"]],
+    ciCommand: "yarn install --frozen-lockfile",
+    pruneCommand: "yarn install --frozen-lockfile --production",
+  },
+  bun: {
+    lockFile: "bun.lock",
+    installCommands: [["bun", "install"]],
+    ciCommand: "bun install --frozen-lockfile",
+    pruneCommand: "bun install --frozen-lockfile --production",
+  },
+};
+
+/**
+ * Returns the install configuration of a package manager.
+ * @param {PackageManager} packageManager - The package manager
+ * @returns {PackageManagerConfig} Lock file and commands used by the package manager
+ */
+export function getPackageManagerConfig(packageManager: PackageManager): PackageManagerConfig {
+  return PACKAGE_MANAGER_CONFIGS[packageManager];
+}
+
+/**
+ * Checks whether a value is a supported package manager.
+ * @param {string} value - The value to check
+ * @returns {boolean} True if the value is a supported package manager
+ */
+export function isPackageManager(value: string): value is PackageManager {
+  return (PACKAGE_MANAGERS as readonly string[]).includes(value);
+}
+
+/**
+ * Detects the package manager that invoked the wizard (e.g. `pnpm dlx`, `yarn create`).
+ * Package managers identify themselves through the `npm_config_user_agent` variable,
+ * which starts with `<name>/<version>`.
+ * @param {string | undefined} userAgent - The value of `npm_config_user_agent`
+ * @returns {PackageManager} The detected package manager, or npm when unknown
+ */
+export function detectPackageManager(
+  userAgent: string | undefined = process.env.npm_config_user_agent
+): PackageManager {
+  const name = userAgent?.split("/")[0] ?? "";
+  return isPackageManager(name) ? name : "npm";
+}
+
+/**
+ * Builds the command that runs a package.json script.
+ * @param {PackageManager} packageManager - The package manager
+ * @param {string} script - Name of the script to run
+ * @returns {Command} The command, e.g. `["pnpm", "run", "dev"]`
+ */
+export function getScriptCommand(packageManager: PackageManager, script: string): Command {
+  return packageManager === "yarn" ? ["yarn", script] : [packageManager, "run", script];
+}
+
+/**
+ * Builds the command used to run a package.json script, as shown to the user.
+ * @param {PackageManager} packageManager - The package manager
+ * @param {string} script - Name of the script to run
+ * @returns {string} The full command, e.g. `pnpm run dev`
+ */
+export function getRunScriptCommand(packageManager: PackageManager, script: string): string {
+  return getScriptCommand(packageManager, script).join(" ");
+}
+
+/**
+ * Builds the command that runs a binary installed in the project's node_modules.
+ * @param {PackageManager} packageManager - The package manager
+ * @param {string} binary - Name of the binary, e.g. `prettier`
+ * @param {readonly string[]} args - Arguments passed to the binary
+ * @returns {Command} The command, e.g. `["pnpm", "exec", "prettier", "--write", "src"]`
+ */
+export function getExecCommand(packageManager: PackageManager, binary: string, args: readonly string[]): Command {
+  const prefixes: Record<PackageManager, Command> = {
+    // --no keeps npx from downloading the binary when it is not installed, and -- from
+    // reading the binary's flags (e.g. --write) as npm options
+    npm: ["npx", "--no", "--"],
+    pnpm: ["pnpm", "exec"],
+    yarn: ["yarn"],
+    bun: ["bun", "x"],
+  };
+  return [...prefixes[packageManager], binary, ...args];
+}
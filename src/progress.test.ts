@@ -0,0 +1,32 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { createSpinnerProgress } from "./progress.js";
+
+describe("createSpinnerProgress", () => {
+  it("should start and stop the spinner with the message of each step", () => {
+    const spinner = { start: jest.fn(), stop: jest.fn() };
+    const onProgress = createSpinnerProgress(spinner);
+
+    onProgress({ step: "files", status: "start" });
+    onProgress({ step: "files", status: "done" });
+    onProgress({ step: "git", status: "start" });
+    onProgress({ step: "git", status: "failed" });
+
+    expect(spinner.start.mock.calls).toEqual([["Creating project structure..."], ["Initializing Git..."]]);
+    expect(spinner.stop.mock.calls).toEqual([
+      ["Project structure created ✓"],
+      ["Error initializing Git (may not be installed)"],
+    ]);
+  });
+
+  it("should show a step failing after the signal is aborted as cancelled", () => {
+    const spinner = { start: jest.fn(), stop: jest.fn() };
+    const controller = new AbortController();
+    const onProgress = createSpinnerProgress(spinner, controller.signal);
+
+    onProgress({ step: "install", status: "start" });
+    controller.abort();
+    onProgress({ step: "install", status: "failed" });
+
+    expect(spinner.stop).toHaveBeenCalledWith("Cancelled");
+  });
+});
@@ -0,0 +1,53 @@
+import type { ProjectProgress } from "./actions.js";
+import type { ProjectStep } from "./errors.js";
+
+/** The part of a `@clack/prompts` spinner used to report progress */
+export interface ProgressSpinner {
+  start(message?: string): void;
+  stop(message?: string): void;
+}
+
+/** Spinner messages of each step of the generation, by status */
+const STEP_MESSAGES: Record<ProjectStep, Record<ProjectProgress["status"], string>> = {
+  files: {
+    start: "Creating project structure...",
+    done: "Project structure created ✓",
+    failed: "Error creating structure",
+  },
+  install: {
+    start: "Installing dependencies...",
+    done: "Dependencies installed ✓",
+    failed: "Error installing dependencies",
+  },
+  verify: {
+    start: "Verifying the project (type-check, build and boot)...",
+    done: "Project verified ✓",
+    failed: "Project verification failed",
+  },
+  git: {
+    start: "Initializing Git...",
+    done: "Git initialized ✓",
+    failed: "Error initializing Git (may not be installed)",
+  },
+};
+
+/**
+ * Creates a progress callback for {@link createProject} that shows each step with a spinner.
+ * @param {ProgressSpinner} spinner - The spinner to start and stop
+ * @param {AbortSignal} signal - When aborted, a failed step is shown as cancelled rather than as an error
+ * @returns {(progress: ProjectProgress) => void} The progress callback
+ */
+export function createSpinnerProgress(
+  spinner: ProgressSpinner,
+  signal?: AbortSignal
+): (progress: ProjectProgress) => void {
+  return ({ step, status }) => {
+    if (status === "start") {
+      spinner.start(STEP_MESSAGES[step].start);
+    } else if (status === "failed" && signal?.aborted) {
+      spinner.stop("Cancelled");
+    } else {
+      spinner.stop(STEP_MESSAGES[step][status]);
+    }
+  };
+}
@@ -1,5 +1,7 @@
-import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import path from "path";
 import type { UserChoices, TsStrictness } from "./prompts.js";
+import type { TemplateManifest } from "./template-engine.js";
 
 // Mock kleur
 jest.unstable_mockModule("kleur", () => ({
@@ -25,6 +27,9 @@ const mockText = jest.fn().mockImplementation((config: { validate?: (value: stri
 });
 const mockSelect = jest.fn().mockResolvedValue("moderate");
 const mockConfirm = jest.fn().mockResolvedValue(true);
+const mockMultiselect = jest.fn().mockResolvedValue([]);
+const mockNote = jest.fn();
+const mockIsCancel = jest.fn().mockReturnValue(false);
 
 jest.unstable_mockModule("@clack/prompts", () => ({
   intro: mockIntro,
@@ -33,10 +38,20 @@ jest.unstable_mockModule("@clack/prompts", () => ({
   text: mockText,
   select: mockSelect,
   confirm: mockConfirm,
+  multiselect: mockMultiselect,
+  note: mockNote,
+  isCancel: mockIsCancel,
 }));
 
 // Import after mocking
-const { runPrompts } = await import("./prompts.js");
+const {
+  getProjectDirectoryName,
+  getProjectNameFromDirectory,
+  promptConflictStrategy,
+  runPrompts,
+  runTemplatePrompts,
+  validateProjectName,
+} = await import("./prompts.js");
 
 describe("runPrompts", () => {
   beforeEach(() => {
@@ -48,6 +63,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "my-test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -64,6 +89,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "relaxed-project",
       tsStrictness: "relaxed",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: false,
     };
 
@@ -79,6 +114,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "strict-project",
       tsStrictness: "strict",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -94,6 +139,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "no-git-project",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: false,
     };
 
@@ -109,6 +164,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "my-project_123",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -123,6 +188,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -137,6 +212,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -157,6 +242,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -184,6 +279,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -205,7 +310,7 @@ describe("runPrompts", () => {
     // Verify text was called with validate function
     expect(mockText).toHaveBeenCalledWith(
       expect.objectContaining({
-        message: "What is your project name?",
+        message: "What is your project name? (. to generate in the current directory)",
         placeholder: "my-express-app",
         defaultValue: "my-express-app",
         validate: expect.any(Function),
@@ -217,6 +322,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -240,6 +355,16 @@ describe("runPrompts", () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -256,15 +381,28 @@ describe("runPrompts", () => {
 
     // Test validation with invalid characters
     expect(capturedValidate).not.toBeNull();
-    expect(capturedValidate!("my app")).toBe("Only letters, numbers, hyphens and underscores allowed");
-    expect(capturedValidate!("my@app")).toBe("Only letters, numbers, hyphens and underscores allowed");
-    expect(capturedValidate!("my.app")).toBe("Only letters, numbers, hyphens and underscores allowed");
+    expect(capturedValidate!("my app")).toBe(
+      'Project name can only contain lowercase letters, numbers, hyphens, periods and underscores. Try "my-app"'
+    );
+    expect(capturedValidate!("my@app")).toBe(
+      'Project name can only contain lowercase letters, numbers, hyphens, periods and underscores. Try "my-app"'
+    );
   });
 
   it("should accept valid project names", async () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -284,13 +422,24 @@ describe("runPrompts", () => {
     expect(capturedValidate!("my-app")).toBeUndefined();
     expect(capturedValidate!("my_app")).toBeUndefined();
     expect(capturedValidate!("myapp123")).toBeUndefined();
-    expect(capturedValidate!("MyApp")).toBeUndefined();
+    expect(capturedValidate!("my.app")).toBeUndefined();
+    expect(capturedValidate!("@acme/my-app")).toBeUndefined();
   });
 
   it("should configure select prompt with correct options", async () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -323,10 +472,229 @@ describe("runPrompts", () => {
     );
   });
 
+  it("should configure select prompt for the module format", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      moduleFormat: () => unknown;
+    };
+    await promptsConfig.moduleFormat();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which module format do you want to use?",
+        options: [
+          expect.objectContaining({ value: "esm", label: "ES modules" }),
+          expect.objectContaining({ value: "cjs", label: "CommonJS" }),
+        ],
+        initialValue: "esm",
+      })
+    );
+  });
+
+  it("should configure select prompt for the Node.js version", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      nodeVersion: () => unknown;
+    };
+    await promptsConfig.nodeVersion();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which Node.js version do you want to target?",
+        options: [
+          { value: "20", label: "Node.js 20" },
+          { value: "22", label: "Node.js 22" },
+          { value: "24", label: "Node.js 24" },
+        ],
+      })
+    );
+  });
+
+  it("should configure select prompt for the package manager", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      packageManager: () => unknown;
+    };
+    await promptsConfig.packageManager();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which package manager do you want to use?",
+        options: [
+          { value: "npm", label: "npm" },
+          { value: "pnpm", label: "pnpm" },
+          { value: "yarn", label: "yarn" },
+          { value: "bun", label: "bun" },
+        ],
+      })
+    );
+  });
+
+  it("should configure select prompt for the project layout", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      layout: () => unknown;
+    };
+    await promptsConfig.layout();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which project layout do you want?",
+        options: [
+          expect.objectContaining({ value: "minimal", label: "Minimal" }),
+          expect.objectContaining({ value: "layered", label: "Layered" }),
+        ],
+        initialValue: "minimal",
+      })
+    );
+  });
+
+  it("should configure select prompt for the test runner", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      testRunner: () => unknown;
+    };
+    await promptsConfig.testRunner();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which test runner do you want to set up?",
+        options: [
+          expect.objectContaining({ value: "vitest", label: "Vitest" }),
+          expect.objectContaining({ value: "jest", label: "Jest" }),
+          expect.objectContaining({ value: "node", label: "node:test" }),
+          expect.objectContaining({ value: "none", label: "None" }),
+        ],
+        initialValue: "vitest",
+      })
+    );
+  });
+
+  it("should configure select prompt for the linter", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      linter: () => unknown;
+    };
+    await promptsConfig.linter();
+
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which linter and formatter do you want to use?",
+        options: [
+          expect.objectContaining({ value: "eslint-prettier", label: "ESLint + Prettier" }),
+          expect.objectContaining({ value: "biome", label: "Biome" }),
+          expect.objectContaining({ value: "none", label: "None" }),
+        ],
+        initialValue: "eslint-prettier",
+      })
+    );
+  });
+
+  it("should configure multiselect prompt for security middleware", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      security: () => unknown;
+    };
+    await promptsConfig.security();
+
+    expect(mockMultiselect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Which security middleware do you want to enable?",
+        options: [
+          expect.objectContaining({ value: "helmet", label: "Helmet" }),
+          expect.objectContaining({ value: "cors", label: "CORS" }),
+          expect.objectContaining({ value: "rate-limit", label: "Rate limiting" }),
+          expect.objectContaining({ value: "body-limit", label: "Body size limit" }),
+        ],
+        initialValues: ["helmet", "cors", "rate-limit", "body-limit"],
+        required: false,
+      })
+    );
+  });
+
+  it("should configure confirm prompt for logging", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      logging: () => unknown;
+    };
+    await promptsConfig.logging();
+
+    expect(mockConfirm).toHaveBeenCalledWith({
+      message: "Add structured logging with pino?",
+      initialValue: true,
+    });
+  });
+
+  it("should configure confirm prompt for OpenAPI", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      openapi: () => unknown;
+    };
+    await promptsConfig.openapi();
+
+    expect(mockConfirm).toHaveBeenCalledWith({
+      message: "Add an OpenAPI document and Swagger UI?",
+      initialValue: true,
+    });
+  });
+
+  it("should configure confirm prompt for Docker", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      docker: () => unknown;
+    };
+    await promptsConfig.docker();
+
+    expect(mockConfirm).toHaveBeenCalledWith({
+      message: "Containerize with Docker?",
+      initialValue: false,
+    });
+  });
+
   it("should configure confirm prompt for git initialization", async () => {
     const expectedChoices: UserChoices = {
       projectName: "test-app",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -360,6 +728,16 @@ describe("UserChoices type", () => {
     const choices: UserChoices = {
       projectName: "test",
       tsStrictness: "moderate",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "npm",
+      layout: "minimal",
+      testRunner: "vitest",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
       initGit: true,
     };
 
@@ -382,3 +760,256 @@ describe("TsStrictness type", () => {
     expect(strict).toBe("strict");
   });
 });
+
+describe("runPrompts with presets", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only prompt for values that are not preset", async () => {
+    mockGroup.mockResolvedValue({ tsStrictness: "strict" });
+
+    const result = await runPrompts({
+      projectName: "preset-app",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "pnpm",
+      layout: "minimal",
+      testRunner: "none",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
+      initGit: false,
+    });
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as Record<string, unknown>;
+    expect(Object.keys(promptsConfig)).toEqual(["tsStrictness"]);
+    expect(result).toEqual({
+      projectName: "preset-app",
+      tsStrictness: "strict",
+      moduleFormat: "esm",
+      nodeVersion: "22",
+      packageManager: "pnpm",
+      layout: "minimal",
+      testRunner: "none",
+      linter: "eslint-prettier",
+      security: [],
+      logging: true,
+      openapi: true,
+      docker: false,
+      initGit: false,
+    });
+  });
+});
+
+describe("runPrompts with features", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should ask which features of the installed plugins to add", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts({}, [
+      { name: "kafka", description: "Consume events from Kafka" },
+      { name: "redis-cache", description: "Cache responses in Redis" },
+    ]);
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as {
+      features: () => unknown;
+    };
+    await promptsConfig.features();
+
+    expect(mockMultiselect).toHaveBeenCalledWith({
+      message: "Which additional features do you want?",
+      options: [
+        { value: "kafka", label: "kafka", hint: "Consume events from Kafka" },
+        { value: "redis-cache", label: "redis-cache", hint: "Cache responses in Redis" },
+      ],
+      initialValues: [],
+      required: false,
+    });
+  });
+
+  it("should not ask for features when no plugin is installed or they are preset", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+    await runPrompts({ features: [] }, [{ name: "kafka", description: "Consume events from Kafka" }]);
+
+    for (const [promptsConfig] of mockGroup.mock.calls) {
+      expect(promptsConfig).not.toHaveProperty("features");
+    }
+  });
+});
+
+describe("runPrompts in the current directory", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(process, "cwd").mockReturnValue(path.resolve("/work/orders-api"));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should name the project after the folder when the answer is .", async () => {
+    mockGroup.mockResolvedValue({ projectName: ".", tsStrictness: "moderate" });
+
+    expect(await runPrompts()).toEqual({ projectName: "orders-api", directory: ".", tsStrictness: "moderate" });
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as { projectName: () => unknown };
+    await promptsConfig.projectName();
+    expect(capturedValidate!(".")).toBeUndefined();
+  });
+
+  it("should reject . when the folder name is not a valid project name", async () => {
+    jest.spyOn(process, "cwd").mockReturnValue(path.resolve("/work/Orders API"));
+    mockGroup.mockResolvedValue({});
+
+    await runPrompts();
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as { projectName: () => unknown };
+    await promptsConfig.projectName();
+    expect(capturedValidate!(".")).toBe(
+      'The current folder name cannot be used as project name: Project name cannot contain uppercase letters. Try "orders-api"'
+    );
+  });
+});
+
+describe("promptConflictStrategy", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the existing files and ask what to do with them", async () => {
+    mockSelect.mockResolvedValueOnce("merge");
+
+    expect(await promptConflictStrategy(["README.md", "package.json"])).toBe("merge");
+
+    expect(mockNote).toHaveBeenCalledWith("README.md\npackage.json", "Already existing files");
+    expect(mockSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "The directory already contains 2 files of the project. What do you want to do?",
+        initialValue: "abort",
+      })
+    );
+  });
+
+  it("should abort when the prompt is cancelled", async () => {
+    mockIsCancel.mockReturnValueOnce(true);
+
+    expect(await promptConflictStrategy(["README.md"])).toBe("abort");
+  });
+});
+
+describe("runTemplatePrompts", () => {
+  const manifest: TemplateManifest = {
+    variables: { TEAM: { default: "platform" }, TIER: { default: "internal" }, REGION: { default: "eu-west-1" } },
+    prompts: [
+      { type: "text", variable: "TEAM", message: "Which team owns the service?" },
+      { type: "select", variable: "TIER", message: "Which tier?", options: ["internal", "public"] },
+      { type: "confirm", flag: "KAFKA", message: "Consume events from Kafka?", default: true },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should ask each prompt with the declared default", async () => {
+    mockGroup.mockResolvedValue({});
+
+    await runTemplatePrompts(manifest);
+
+    const promptsConfig = mockGroup.mock.calls[0][0] as Record<string, () => unknown>;
+    expect(Object.keys(promptsConfig)).toEqual(["TEAM", "TIER", "KAFKA"]);
+    await promptsConfig.TEAM();
+    await promptsConfig.TIER();
+    await promptsConfig.KAFKA();
+    expect(mockText).toHaveBeenCalledWith({
+      message: "Which team owns the service?",
+      placeholder: "platform",
+      defaultValue: "platform",
+    });
+    expect(mockSelect).toHaveBeenCalledWith({
+      message: "Which tier?",
+      options: [
+        { value: "internal", label: "internal" },
+        { value: "public", label: "public" },
+      ],
+      initialValue: "internal",
+    });
+    expect(mockConfirm).toHaveBeenCalledWith({ message: "Consume events from Kafka?", initialValue: true });
+  });
+
+  it("should return the answers as variables and flags, keeping defaults of variables without a prompt", async () => {
+    mockGroup.mockResolvedValue({ TEAM: "payments", TIER: "public", KAFKA: false });
+
+    expect(await runTemplatePrompts(manifest)).toEqual({
+      variables: { TEAM: "payments", TIER: "public", REGION: "eu-west-1" },
+      flags: { KAFKA: false },
+    });
+  });
+});
+
+describe("validateProjectName", () => {
+  it("should return undefined for valid names", () => {
+    expect(validateProjectName("my-app_1")).toBeUndefined();
+  });
+
+  it("should reject empty names", () => {
+    expect(validateProjectName("")).toBe("Project name is required");
+    expect(validateProjectName(undefined)).toBe("Project name is required");
+  });
+
+  it("should accept scoped names", () => {
+    expect(validateProjectName("@acme/orders-api")).toBeUndefined();
+    expect(validateProjectName("@acme/http")).toBeUndefined();
+  });
+
+  it("should reject names with invalid characters and suggest a fix", () => {
+    expect(validateProjectName("my app")).toBe(
+      'Project name can only contain lowercase letters, numbers, hyphens, periods and underscores. Try "my-app"'
+    );
+    expect(validateProjectName("!!!")).toBe(
+      "Project name can only contain lowercase letters, numbers, hyphens, periods and underscores"
+    );
+  });
+
+  it("should reject names npm does not accept for new packages", () => {
+    expect(validateProjectName("MyApp")).toBe('Project name cannot contain uppercase letters. Try "myapp"');
+    expect(validateProjectName("@Acme/Orders API")).toBe(
+      'Project name cannot contain uppercase letters. Try "@acme/orders-api"'
+    );
+    expect(validateProjectName("_private")).toBe(
+      'Project name cannot start with a period or an underscore. Try "private"'
+    );
+    expect(validateProjectName("@acme")).toBe('Scoped project names must look like @scope/name. Try "acme"');
+    expect(validateProjectName("node_modules")).toBe('"node_modules" is reserved by npm. Try "node_modules-app"');
+    expect(validateProjectName("http")).toBe('"http" is the name of a Node.js core module. Try "http-app"');
+    expect(validateProjectName("a".repeat(215))).toMatch(/^Project name must be at most 214 characters long/);
+  });
+});
+
+describe("getProjectDirectoryName", () => {
+  it("should drop the scope of the project name", () => {
+    expect(getProjectDirectoryName("@acme/orders-api")).toBe("orders-api");
+    expect(getProjectDirectoryName("orders-api")).toBe("orders-api");
+  });
+});
+
+describe("getProjectNameFromDirectory", () => {
+  it("should return the name of the folder", () => {
+    expect(getProjectNameFromDirectory("services/orders-api")).toBe("orders-api");
+    expect(getProjectNameFromDirectory(".")).toBe(path.basename(process.cwd()));
+  });
+
+  it("should reject folder names that are not valid project names", () => {
+    expect(() => getProjectNameFromDirectory("services/Orders API")).toThrow(
+      'The folder name "Orders API" cannot be used as project name: Project name cannot contain uppercase letters. Try "orders-api"'
+    );
+  });
+});
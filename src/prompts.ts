@@ -1,66 +1,425 @@
 import * as p from "@clack/prompts";
 import kleur from "kleur";
+import { builtinModules } from "module";
+import path from "path";
+import type { Feature } from "./features.js";
+import { NODE_VERSIONS, detectNodeVersion, type NodeVersion } from "./node-versions.js";
+import { PACKAGE_MANAGERS, detectPackageManager, type PackageManager } from "./package-managers.js";
+import { getTemplateDefaults, type TemplateContext, type TemplateManifest } from "./template-engine.js";
 
 /** Available TypeScript strictness levels for project configuration */
 export type TsStrictness = "relaxed" | "moderate" | "strict";
 
+/** All supported TypeScript strictness levels, in prompt order */
+export const TS_STRICTNESS_LEVELS: readonly TsStrictness[] = ["relaxed", "moderate", "strict"];
+
+/** Module systems the generated project can be compiled to */
+export type ModuleFormat = "esm" | "cjs";
+
+/** All supported module formats, in prompt order */
+export const MODULE_FORMATS: readonly ModuleFormat[] = ["esm", "cjs"];
+
+/** Source layouts of the generated project */
+export type ProjectLayout = "minimal" | "layered";
+
+/** All supported project layouts, in prompt order */
+export const PROJECT_LAYOUTS: readonly ProjectLayout[] = ["minimal", "layered"];
+
+/** Test runners that can be set up in the generated project; "node" is the built-in `node:test` */
+export type TestRunner = "vitest" | "jest" | "node" | "none";
+
+/** All supported test runners, in prompt order */
+export const TEST_RUNNERS: readonly TestRunner[] = ["vitest", "jest", "node", "none"];
+
+/** Lint and format toolchains that can be set up in the generated project */
+export type Linter = "eslint-prettier" | "biome" | "none";
+
+/** All supported lint and format toolchains, in prompt order */
+export const LINTERS: readonly Linter[] = ["eslint-prettier", "biome", "none"];
+
+/** Security middleware that can be enabled in the generated project */
+export type SecurityFeature = "helmet" | "cors" | "rate-limit" | "body-limit";
+
+/** All supported security middleware, in prompt order */
+export const SECURITY_FEATURES: readonly SecurityFeature[] = ["helmet", "cors", "rate-limit", "body-limit"];
+
+/** What to do with the files of the project that already exist in the target directory */
+export type ConflictStrategy = "abort" | "merge" | "overwrite";
+
+/** All conflict strategies, in prompt order */
+export const CONFLICT_STRATEGIES: readonly ConflictStrategy[] = ["abort", "merge", "overwrite"];
+
+/** package.json metadata and server defaults, set with command-line flags instead of prompts */
+export interface ProjectMetadata {
+  readonly description: string;
+  readonly author: string;
+  /** SPDX license identifier */
+  readonly license: string;
+  /** Port the server listens on when the PORT environment variable is not set */
+  readonly port: number;
+}
+
 /** User selections from the interactive wizard */
-export interface UserChoices {
+export interface UserChoices extends Partial<ProjectMetadata> {
   readonly projectName: string;
   readonly tsStrictness: TsStrictness;
+  readonly moduleFormat: ModuleFormat;
+  /** Major Node.js version the project targets */
+  readonly nodeVersion: NodeVersion;
+  readonly packageManager: PackageManager;
+  readonly layout: ProjectLayout;
+  readonly testRunner: TestRunner;
+  readonly linter: Linter;
+  /** Security middleware to enable; empty for none */
+  readonly security: readonly SecurityFeature[];
+  /** Whether to log with pino and tag requests with an X-Request-Id */
+  readonly logging: boolean;
+  /** Whether to describe the API with an OpenAPI document and serve Swagger UI */
+  readonly openapi: boolean;
+  /** Whether to generate a Dockerfile and docker-compose.yml */
+  readonly docker: boolean;
   readonly initGit: boolean;
+  /** Names of the plugin features to add, see {@link Feature}; none when omitted */
+  readonly features?: readonly string[];
+  /** Directory to generate the project in, relative to the current one; the project name when omitted */
+  readonly directory?: string;
+}
+
+/** Values used when the user accepts the defaults (e.g. with --yes) */
+export const DEFAULT_CHOICES: UserChoices = {
+  projectName: "my-express-app",
+  tsStrictness: "moderate",
+  moduleFormat: "esm",
+  nodeVersion: detectNodeVersion(),
+  packageManager: detectPackageManager(),
+  layout: "minimal",
+  testRunner: "vitest",
+  linter: "eslint-prettier",
+  security: SECURITY_FEATURES,
+  logging: true,
+  openapi: true,
+  docker: false,
+  initGit: true,
+};
+
+/** Metadata used when no flag overrides it */
+export const DEFAULT_METADATA: ProjectMetadata = {
+  description: "Express.js API with TypeScript",
+  author: "",
+  license: "MIT",
+  port: 3000,
+};
+
+/** Longest package name the npm registry accepts */
+const MAX_PROJECT_NAME_LENGTH = 214;
+
+/** Names npm does not accept for packages, besides those of the Node.js core modules */
+const RESERVED_PROJECT_NAMES: readonly string[] = ["node_modules", "favicon.ico"];
+
+/**
+ * Splits a project name into its npm scope, if any, and the unscoped name.
+ * @param {string} projectName - The project name, e.g. `@acme/orders-api`
+ * @returns {{ scope?: string; name: string }} The scope without the `@`, and the unscoped name
+ */
+function splitScope(projectName: string): { scope?: string; name: string } {
+  const match = /^@([^/]*)\/(.*)$/.exec(projectName);
+  return match ? { scope: match[1], name: match[2] } : { name: projectName };
+}
+
+/**
+ * Checks whether an unscoped name is reserved by npm or taken by a Node.js core module.
+ * @param {string} name - The unscoped name
+ * @returns {boolean} True if npm does not accept the name for a new package
+ */
+function isReservedName(name: string): boolean {
+  return RESERVED_PROJECT_NAMES.includes(name) || builtinModules.includes(name);
+}
+
+/**
+ * Returns the name of the directory a project is generated in: its name without the npm scope.
+ * @param {string} projectName - The project name, e.g. `@acme/orders-api`
+ * @returns {string} The unscoped name, e.g. `orders-api`
+ */
+export function getProjectDirectoryName(projectName: string): string {
+  return splitScope(projectName).name;
+}
+
+/**
+ * Turns a value into a project name that follows npm's rules, to suggest as a fix.
+ * Letters are lowercased and runs of other characters npm does not accept become hyphens.
+ * @param {string} value - The rejected project name
+ * @returns {string | undefined} The suggested name, or undefined if nothing usable is left
+ */
+export function suggestProjectName(value: string): string | undefined {
+  const sanitize = (part: string): string =>
+    part
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, "-")
+      .replace(/^[._-]+|-+$/g, "")
+      .slice(0, MAX_PROJECT_NAME_LENGTH);
+  const { scope, name } = splitScope(value.trim());
+  const unscoped = sanitize(name);
+  const sanitizedScope = scope === undefined ? "" : sanitize(scope);
+
+  if (!unscoped) return undefined;
+  if (sanitizedScope) return `@${sanitizedScope}/${unscoped}`;
+  return isReservedName(unscoped) ? `${unscoped}-app` : unscoped;
+}
+
+/**
+ * Finds the first of npm's package-name rules a project name breaks.
+ * @param {string} value - The non-empty project name
+ * @returns {string | undefined} The broken rule, or undefined if the name is valid
+ */
+function findProjectNameProblem(value: string): string | undefined {
+  if (value.length > MAX_PROJECT_NAME_LENGTH) {
+    return `Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters long`;
+  }
+  const { scope, name } = splitScope(value);
+  if (value.startsWith("@") && (!scope || !name)) {
+    return "Scoped project names must look like @scope/name";
+  }
+  for (const part of scope === undefined ? [name] : [scope, name]) {
+    if (/[A-Z]/.test(part)) return "Project name cannot contain uppercase letters";
+    if (/^[._]/.test(part)) return "Project name cannot start with a period or an underscore";
+    if (!/^[a-z0-9._-]+$/.test(part)) {
+      return "Project name can only contain lowercase letters, numbers, hyphens, periods and underscores";
+    }
+  }
+  if (scope === undefined && RESERVED_PROJECT_NAMES.includes(name)) {
+    return `"${name}" is reserved by npm`;
+  }
+  if (scope === undefined && builtinModules.includes(name)) {
+    return `"${name}" is the name of a Node.js core module`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates a project name, which is also the package name, against npm's rules for new packages.
+ * Scoped names like `@acme/orders-api` are accepted; their directory is the unscoped part.
+ * Shared by the interactive prompt and the --name command-line flag.
+ * @param {string | undefined} value - The project name to validate
+ * @returns {string | undefined} An error message, with a suggested name when possible, or undefined if valid
+ */
+export function validateProjectName(value: string | undefined): string | undefined {
+  if (!value) return "Project name is required";
+  const problem = findProjectNameProblem(value);
+  if (!problem) return undefined;
+
+  const suggestion = suggestProjectName(value);
+  return suggestion ? `${problem}. Try "${suggestion}"` : problem;
+}
+
+/**
+ * Derives the project name from the folder it is generated in, e.g. `.` for the current directory.
+ * @param {string} directory - The target directory, relative to the current one
+ * @returns {string} The folder name
+ * @throws {Error} If the folder name is not a valid project name
+ */
+export function getProjectNameFromDirectory(directory: string): string {
+  const name = path.basename(path.resolve(process.cwd(), directory));
+  const nameError = validateProjectName(name);
+  if (nameError) {
+    throw new Error(`The folder name "${name}" cannot be used as project name: ${nameError}`);
+  }
+  return name;
+}
+
+/**
+ * Validates the answer to the project name prompt, where `.` stands for the current directory.
+ * @param {string | undefined} value - The answer to validate
+ * @returns {string | undefined} An error message, or undefined if the answer is valid
+ */
+function validateProjectNameAnswer(value: string | undefined): string | undefined {
+  if (value !== ".") {
+    return validateProjectName(value);
+  }
+  const nameError = validateProjectName(path.basename(process.cwd()));
+  return nameError && `The current folder name cannot be used as project name: ${nameError}`;
 }
 
 /**
  * Runs the interactive CLI wizard to collect user preferences.
- * Displays prompts for project name, TypeScript strictness, and Git initialization.
+ * Displays prompts for project name, TypeScript strictness, module format, Node.js version, package manager, layout, test runner, linter, security middleware, logging, OpenAPI, Docker, and Git initialization.
+ * When feature plugins are installed, also asks which of their features to add.
+ * Values already present in `presets` (e.g. from command-line flags) are not asked again.
+ * @param {Partial<UserChoices>} presets - Choices that are already known
+ * @param {readonly Feature[]} availableFeatures - Features of the installed plugins
  * @returns {Promise<UserChoices | null>} The user's choices, or null if cancelled
  */
-export async function runPrompts(): Promise<UserChoices | null> {
+export async function runPrompts(
+  presets: Partial<UserChoices> = {},
+  availableFeatures: readonly Feature[] = []
+): Promise<UserChoices | null> {
   p.intro(kleur.bgCyan().black(" express-ts-wizard "));
 
   const project = await p.group(
     {
-      projectName: () =>
-        p.text({
-          message: "What is your project name?",
-          placeholder: "my-express-app",
-          defaultValue: "my-express-app",
-          validate: (value) => {
-            if (!value) return "Project name is required";
-            if (!/^[a-z0-9-_]+$/i.test(value)) {
-              return "Only letters, numbers, hyphens and underscores allowed";
-            }
-          },
-        }),
+      ...(presets.projectName === undefined && {
+        projectName: () =>
+          p.text({
+            message: "What is your project name? (. to generate in the current directory)",
+            placeholder: DEFAULT_CHOICES.projectName,
+            defaultValue: DEFAULT_CHOICES.projectName,
+            validate: validateProjectNameAnswer,
+          }),
+      }),
 
-      tsStrictness: () =>
-        p.select({
-          message: "Which TypeScript strictness level do you prefer?",
-          options: [
-            {
-              value: "relaxed",
-              label: "Relaxed",
-              hint: "strict: false - Minimal configuration",
-            },
-            {
-              value: "moderate",
-              label: "Moderate",
-              hint: "strict: true - Recommended",
-            },
-            {
-              value: "strict",
-              label: "Strict",
-              hint: "strict + additional options - Maximum type safety",
-            },
-          ],
-          initialValue: "moderate" as TsStrictness,
-        }),
+      ...(presets.tsStrictness === undefined && {
+        tsStrictness: () =>
+          p.select({
+            message: "Which TypeScript strictness level do you prefer?",
+            options: [
+              {
+                value: "relaxed",
+                label: "Relaxed",
+                hint: "strict: false - Minimal configuration",
+              },
+              {
+                value: "moderate",
+                label: "Moderate",
+                hint: "strict: true - Recommended",
+              },
+              {
+                value: "strict",
+                label: "Strict",
+                hint: "strict + additional options - Maximum type safety",
+              },
+            ],
+            initialValue: DEFAULT_CHOICES.tsStrictness,
+          }),
+      }),
+
+      ...(presets.moduleFormat === undefined && {
+        moduleFormat: () =>
+          p.select({
+            message: "Which module format do you want to use?",
+            options: [
+              { value: "esm", label: "ES modules", hint: "Recommended" },
+              { value: "cjs", label: "CommonJS", hint: "For tooling that cannot load ES modules" },
+            ],
+            initialValue: DEFAULT_CHOICES.moduleFormat,
+          }),
+      }),
+
+      ...(presets.nodeVersion === undefined && {
+        nodeVersion: () =>
+          p.select({
+            message: "Which Node.js version do you want to target?",
+            options: NODE_VERSIONS.map((nodeVersion) => ({ value: nodeVersion, label: `Node.js ${nodeVersion}` })),
+            initialValue: DEFAULT_CHOICES.nodeVersion,
+          }),
+      }),
+
+      ...(presets.packageManager === undefined && {
+        packageManager: () =>
+          p.select({
+            message: "Which package manager do you want to use?",
+            options: PACKAGE_MANAGERS.map((packageManager) => ({ value: packageManager, label: packageManager })),
+            initialValue: DEFAULT_CHOICES.packageManager,
+          }),
+      }),
+
+      ...(presets.layout === undefined && {
+        layout: () =>
+          p.select({
+            message: "Which project layout do you want?",
+            options: [
+              { value: "minimal", label: "Minimal", hint: "app.ts and index.ts" },
+              { value: "layered", label: "Layered", hint: "routes, controllers, services and middleware folders" },
+            ],
+            initialValue: DEFAULT_CHOICES.layout,
+          }),
+      }),
+
+      ...(presets.testRunner === undefined && {
+        testRunner: () =>
+          p.select({
+            message: "Which test runner do you want to set up?",
+            options: [
+              { value: "vitest", label: "Vitest", hint: "Recommended" },
+              { value: "jest", label: "Jest", hint: "with ts-jest" },
+              { value: "node", label: "node:test", hint: "Built-in, run through tsx" },
+              { value: "none", label: "None" },
+            ],
+            initialValue: DEFAULT_CHOICES.testRunner,
+          }),
+      }),
+
+      ...(presets.linter === undefined && {
+        linter: () =>
+          p.select({
+            message: "Which linter and formatter do you want to use?",
+            options: [
+              { value: "eslint-prettier", label: "ESLint + Prettier", hint: "Recommended" },
+              { value: "biome", label: "Biome", hint: "Single fast tool for linting and formatting" },
+              { value: "none", label: "None" },
+            ],
+            initialValue: DEFAULT_CHOICES.linter,
+          }),
+      }),
+
+      ...(presets.security === undefined && {
+        security: () =>
+          p.multiselect({
+            message: "Which security middleware do you want to enable?",
+            options: [
+              { value: "helmet", label: "Helmet", hint: "Security headers" },
+              { value: "cors", label: "CORS", hint: "Allowed origins from CORS_ORIGINS" },
+              { value: "rate-limit", label: "Rate limiting", hint: "Requests per IP from RATE_LIMIT_*" },
+              { value: "body-limit", label: "Body size limit", hint: "JSON body limit from BODY_LIMIT" },
+            ],
+            initialValues: [...DEFAULT_CHOICES.security],
+            required: false,
+          }),
+      }),
+
+      ...(presets.logging === undefined && {
+        logging: () =>
+          p.confirm({
+            message: "Add structured logging with pino?",
+            initialValue: DEFAULT_CHOICES.logging,
+          }),
+      }),
 
-      initGit: () =>
-        p.confirm({
-          message: "Initialize Git repository?",
-          initialValue: true,
+      ...(presets.openapi === undefined && {
+        openapi: () =>
+          p.confirm({
+            message: "Add an OpenAPI document and Swagger UI?",
+            initialValue: DEFAULT_CHOICES.openapi,
+          }),
+      }),
+
+      ...(presets.docker === undefined && {
+        docker: () =>
+          p.confirm({
+            message: "Containerize with Docker?",
+            initialValue: DEFAULT_CHOICES.docker,
+          }),
+      }),
+
+      ...(presets.initGit === undefined && {
+        initGit: () =>
+          p.confirm({
+            message: "Initialize Git repository?",
+            initialValue: DEFAULT_CHOICES.initGit,
+          }),
+      }),
+
+      ...(presets.features === undefined &&
+        availableFeatures.length > 0 && {
+          features: () =>
+            p.multiselect({
+              message: "Which additional features do you want?",
+              options: availableFeatures.map((feature) => ({
+                value: feature.name,
+                label: feature.name,
+                hint: feature.description,
+              })),
+              initialValues: [],
+              required: false,
+            }),
         }),
     },
     {
@@ -71,5 +430,88 @@ export async function runPrompts(): Promise<UserChoices | null> {
     }
   );
 
-  return project as UserChoices;
+  // "." generates in the current directory, named after its folder
+  if (project.projectName === ".") {
+    return { ...presets, ...project, projectName: getProjectNameFromDirectory("."), directory: "." } as UserChoices;
+  }
+  return { ...presets, ...project } as UserChoices;
+}
+
+/**
+ * Asks the extra prompts declared by a custom template.
+ * Text and select prompts set variables, confirm prompts set flags; declared variables
+ * without a prompt keep their default.
+ * @param {TemplateManifest} manifest - The validated manifest of the template
+ * @returns {Promise<TemplateContext>} The values of the template's variables and flags
+ */
+export async function runTemplatePrompts(manifest: TemplateManifest): Promise<TemplateContext> {
+  const defaults = getTemplateDefaults(manifest);
+
+  const answers = await p.group(
+    Object.fromEntries(
+      (manifest.prompts ?? []).map((prompt) => {
+        switch (prompt.type) {
+          case "text":
+            return [
+              prompt.variable,
+              () =>
+                p.text({
+                  message: prompt.message,
+                  placeholder: defaults.variables[prompt.variable],
+                  defaultValue: defaults.variables[prompt.variable],
+                }),
+            ];
+          case "select":
+            return [
+              prompt.variable,
+              () =>
+                p.select({
+                  message: prompt.message,
+                  options: prompt.options.map((option) => ({ value: option, label: option })),
+                  initialValue: defaults.variables[prompt.variable],
+                }),
+            ];
+          case "confirm":
+            return [prompt.flag, () => p.confirm({ message: prompt.message, initialValue: defaults.flags[prompt.flag] })];
+        }
+      })
+    ),
+    {
+      onCancel: () => {
+        p.cancel("Operation cancelled.");
+        process.exit(0);
+      },
+    }
+  );
+
+  const variables: Record<string, string> = { ...defaults.variables };
+  const flags: Record<string, boolean> = { ...defaults.flags };
+  for (const [name, answer] of Object.entries(answers)) {
+    if (typeof answer === "boolean") {
+      flags[name] = answer;
+    } else if (typeof answer === "string") {
+      variables[name] = answer;
+    }
+  }
+  return { variables, flags };
+}
+
+/**
+ * Asks what to do with the project files that already exist in the target directory.
+ * @param {readonly string[]} conflicts - Relative paths of the existing files
+ * @returns {Promise<ConflictStrategy>} The chosen strategy, or "abort" if the prompt is cancelled
+ */
+export async function promptConflictStrategy(conflicts: readonly string[]): Promise<ConflictStrategy> {
+  p.note(conflicts.join("\n"), "Already existing files");
+  const count = conflicts.length === 1 ? "a file" : `${conflicts.length} files`;
+  const strategy = await p.select<ConflictStrategy>({
+    message: `The directory already contains ${count} of the project. What do you want to do?`,
+    options: [
+      { value: "abort", label: "Abort", hint: "Leave the directory untouched" },
+      { value: "merge", label: "Merge", hint: "Keep the existing files and add the others" },
+      { value: "overwrite", label: "Overwrite", hint: "Replace the existing files with the generated ones" },
+    ],
+    initialValue: "abort",
+  });
+  return p.isCancel(strategy) ? "abort" : strategy;
 }
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  evaluateCondition,
+  getOutputPath,
+  getTemplateDefaults,
+  readTemplateManifest,
+  renderTemplate,
+  renderTemplateDirectory,
+  renderTemplateFile,
+  type TemplateContext,
+} from "./template-engine.js";
+
+const context: TemplateContext = {
+  variables: { PROJECT_NAME: "my-app", DESCRIPTION: 'A "quoted" API' },
+  flags: { DOCKER: true, TESTS: false },
+};
+
+describe("renderTemplate", () => {
+  it("should substitute variables", () => {
+    expect(renderTemplate("name: {{PROJECT_NAME}} ({{PROJECT_NAME}})", context)).toBe("name: my-app (my-app)");
+  });
+
+  it("should leave non-placeholder braces untouched", () => {
+    expect(renderTemplate("const value = { a: { b: 1 } }; {{ lowercase }}", context)).toBe(
+      "const value = { a: { b: 1 } }; {{ lowercase }}"
+    );
+  });
+
+  it("should throw for unknown variables", () => {
+    expect(() => renderTemplate("line one\n{{MISSING}}", context)).toThrow(
+      'Unknown template variable "MISSING" on line 2'
+    );
+  });
+
+  it("should apply the escape function to variable values", () => {
+    const rendered = renderTemplate('"{{DESCRIPTION}}"', context, {
+      escape: (value) => JSON.stringify(value).slice(1, -1),
+    });
+
+    expect(JSON.parse(rendered)).toBe('A "quoted" API');
+  });
+
+  it("should keep #if blocks whose flag is true and drop the tag lines", () => {
+    const template = ["start", "{{#if DOCKER}}", "docker", "{{/if}}", "end"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("start\ndocker\nend");
+  });
+
+  it("should drop #if blocks whose flag is false", () => {
+    const template = ["start", "{{#if TESTS}}", "tests", "{{/if}}", "end"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("start\nend");
+  });
+
+  it("should render #unless blocks when the flag is false", () => {
+    const template = ["{{#unless TESTS}}", "no tests", "{{/unless}}"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("no tests");
+  });
+
+  it("should render the else branch when the condition does not hold", () => {
+    const template = ["{{#if TESTS}}", "tests", "{{else}}", "no tests", "{{/if}}"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("no tests");
+  });
+
+  it("should support negated flags", () => {
+    const template = ["{{#if !TESTS}}", "no tests", "{{/if}}"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("no tests");
+  });
+
+  it("should accept block tags inside line comments", () => {
+    const template = ["// {{#if DOCKER}}", "const docker = true;", "  // {{/if}}", "# {{#if TESTS}}", "x", "# {{/if}}"].join(
+      "\n"
+    );
+
+    expect(renderTemplate(template, context)).toBe("const docker = true;");
+  });
+
+  it("should support nested blocks", () => {
+    const template = [
+      "{{#if DOCKER}}",
+      "docker",
+      "{{#if TESTS}}",
+      "docker and tests",
+      "{{else}}",
+      "docker without tests",
+      "{{/if}}",
+      "{{/if}}",
+      "{{#if TESTS}}",
+      "{{#if DOCKER}}",
+      "never",
+      "{{/if}}",
+      "{{/if}}",
+    ].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("docker\ndocker without tests");
+  });
+
+  it("should not resolve variables inside dropped blocks", () => {
+    const template = ["{{#if TESTS}}", "{{MISSING}}", "{{/if}}"].join("\n");
+
+    expect(renderTemplate(template, context)).toBe("");
+  });
+
+  it("should throw for unknown flags", () => {
+    expect(() => renderTemplate("{{#if MISSING}}\n{{/if}}", context)).toThrow('Unknown template flag "MISSING"');
+  });
+
+  it("should throw for unclosed blocks", () => {
+    expect(() => renderTemplate("{{#if DOCKER}}\ndocker", context)).toThrow("Unclosed {{#if}} block");
+  });
+
+  it("should throw for mismatched closing tags", () => {
+    expect(() => renderTemplate("{{#if DOCKER}}\n{{/unless}}", context)).toThrow("Unexpected {{/unless}} on line 2");
+  });
+
+  it("should throw for an else outside of a block or a second else", () => {
+    expect(() => renderTemplate("{{else}}", context)).toThrow("Unexpected {{else}} on line 1");
+    expect(() => renderTemplate("{{#if DOCKER}}\n{{else}}\n{{else}}\n{{/if}}", context)).toThrow(
+      "Unexpected {{else}} on line 3"
+    );
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("should return the flag value", () => {
+    expect(evaluateCondition("DOCKER", context.flags)).toBe(true);
+    expect(evaluateCondition("TESTS", context.flags)).toBe(false);
+  });
+
+  it("should negate the flag value with !", () => {
+    expect(evaluateCondition("!DOCKER", context.flags)).toBe(false);
+  });
+
+  it("should throw for unknown flags", () => {
+    expect(() => evaluateCondition("!MISSING", context.flags)).toThrow('Unknown template flag "MISSING"');
+  });
+});
+
+describe("getTemplateDefaults", () => {
+  it("should return the declared variable defaults and a flag per confirm prompt", () => {
+    expect(
+      getTemplateDefaults({
+        variables: { TEAM: { default: "platform" }, TIER: { default: "internal" } },
+        prompts: [
+          { type: "select", variable: "TIER", message: "Which tier?", options: ["internal", "public"] },
+          { type: "confirm", flag: "KAFKA", message: "Consume events from Kafka?" },
+          { type: "confirm", flag: "METRICS", message: "Export metrics?", default: true },
+        ],
+      })
+    ).toEqual({
+      variables: { TEAM: "platform", TIER: "internal" },
+      flags: { KAFKA: false, METRICS: true },
+    });
+    expect(getTemplateDefaults({})).toEqual({ variables: {}, flags: {} });
+  });
+});
+
+describe("getOutputPath", () => {
+  it("should restore dotfiles and package.json names", () => {
+    expect(getOutputPath("gitignore")).toBe(".gitignore");
+    expect(getOutputPath("package.template.json")).toBe("package.json");
+  });
+
+  it("should keep nested paths and other file names", () => {
+    expect(getOutputPath("src/index.ts")).toBe("src/index.ts");
+    expect(getOutputPath(".env.example")).toBe(".env.example");
+  });
+});
+
+describe("template directories", () => {
+  let templatesDirectory: string;
+
+  beforeEach(async () => {
+    templatesDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "template-engine-"));
+    const baseDirectory = path.join(templatesDirectory, "base");
+    await fs.outputFile(path.join(baseDirectory, "package.template.json"), '{"description": "{{DESCRIPTION}}"}');
+    await fs.outputFile(path.join(baseDirectory, "gitignore"), "node_modules/\n");
+    await fs.outputFile(path.join(baseDirectory, "src", "index.ts"), "// {{PROJECT_NAME}}\n");
+    await fs.outputFile(path.join(baseDirectory, "Dockerfile"), "FROM node\n");
+    await fs.outputFile(path.join(baseDirectory, "src", "index.test.ts"), "test\n");
+  });
+
+  afterEach(async () => {
+    await fs.remove(templatesDirectory);
+  });
+
+  it("should render every file and apply output path conventions", async () => {
+    const files = await renderTemplateDirectory(path.join(templatesDirectory, "base"), context);
+
+    expect(files).toEqual([
+      { relativePath: "Dockerfile", content: "FROM node\n" },
+      { relativePath: ".gitignore", content: "node_modules/\n" },
+      { relativePath: "package.json", content: '{"description": "A \\"quoted\\" API"}' },
+      { relativePath: "src/index.test.ts", content: "test\n" },
+      { relativePath: "src/index.ts", content: "// my-app\n" },
+    ]);
+  });
+
+  it("should skip files whose manifest condition does not hold", async () => {
+    const files = await renderTemplateDirectory(path.join(templatesDirectory, "base"), context, {
+      files: { Dockerfile: "!DOCKER", "src/index.test.ts": "TESTS" },
+    });
+
+    expect(files.map((file) => file.relativePath)).toEqual([".gitignore", "package.json", "src/index.ts"]);
+  });
+
+  it("should substitute variables in file and directory names", async () => {
+    await fs.outputFile(path.join(templatesDirectory, "base", "{{PROJECT_NAME}}", "{{PROJECT_NAME}}.ts"), "named\n");
+
+    const files = await renderTemplateDirectory(path.join(templatesDirectory, "base"), context, {
+      files: { "{{PROJECT_NAME}}/{{PROJECT_NAME}}.ts": "DOCKER" },
+    });
+
+    expect(files).toContainEqual({ relativePath: "my-app/my-app.ts", content: "named\n" });
+  });
+
+  it("should reject file names that render to a path outside the project", async () => {
+    await fs.outputFile(path.join(templatesDirectory, "base", "{{PROJECT_NAME}}.ts"), "named\n");
+    const base = path.join(templatesDirectory, "base");
+
+    for (const projectName of ["../../escaped", "/tmp/escaped", "C:/escaped", "..\\escaped"]) {
+      await expect(
+        renderTemplateDirectory(base, { ...context, variables: { ...context.variables, PROJECT_NAME: projectName } })
+      ).rejects.toThrow(/^Template file \{\{PROJECT_NAME\}\}\.ts renders to ".*", which is not a path inside/);
+    }
+  });
+
+  it("should keep variables that stay inside the project in file names", async () => {
+    await fs.outputFile(path.join(templatesDirectory, "base", "{{PROJECT_NAME}}.ts"), "named\n");
+
+    const files = await renderTemplateDirectory(path.join(templatesDirectory, "base"), {
+      ...context,
+      variables: { ...context.variables, PROJECT_NAME: "lib/../app" },
+    });
+
+    expect(files).toContainEqual({ relativePath: "app.ts", content: "named\n" });
+  });
+
+  it("should return an empty manifest when there is no template.json", async () => {
+    expect(await readTemplateManifest(templatesDirectory)).toEqual({});
+  });
+
+  it("should read template.json when present", async () => {
+    await fs.writeJson(path.join(templatesDirectory, "template.json"), { files: { Dockerfile: "DOCKER" } });
+
+    expect(await readTemplateManifest(templatesDirectory)).toEqual({ files: { Dockerfile: "DOCKER" } });
+  });
+
+  it("should include the template path in rendering errors", async () => {
+    const templatePath = path.join(templatesDirectory, "broken.ts");
+    await fs.writeFile(templatePath, "{{UNKNOWN}}");
+
+    await expect(renderTemplateFile(templatePath, "broken.ts", context)).rejects.toThrow(
+      `Failed to render ${templatePath}: Unknown template variable "UNKNOWN" on line 1`
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import fs from "fs-extra";
+import path from "path";
+
+/** Values and feature flags available to templates */
+export interface TemplateContext {
+  /** Values substituted for `{{NAME}}` placeholders */
+  readonly variables: Readonly<Record<string, string>>;
+  /** Booleans tested by `{{#if NAME}}` / `{{#unless NAME}}` blocks and file conditions */
+  readonly flags: Readonly<Record<string, boolean>>;
+}
+
+/** A file of the generated project, rendered in memory before anything is written */
+export interface ProjectFile {
+  /** Path relative to the project root, using forward slashes */
+  readonly relativePath: string;
+  readonly content: string;
+}
+
+/** A variable declared by a custom template, substituted like the built-in ones */
+export interface TemplateVariable {
+  readonly description?: string;
+  /** Value used when no prompt asks for the variable, or the wizard does not prompt */
+  readonly default: string;
+}
+
+/** A free-text prompt that sets a declared variable */
+export interface TextTemplatePrompt {
+  readonly type: "text";
+  readonly variable: string;
+  readonly message: string;
+}
+
+/** A prompt that sets a declared variable to one of a list of values */
+export interface SelectTemplatePrompt {
+  readonly type: "select";
+  readonly variable: string;
+  readonly message: string;
+  /** Allowed values; the variable's default must be one of them */
+  readonly options: readonly string[];
+}
+
+/** A yes/no prompt that sets a flag, usable in `{{#if}}` blocks and file conditions */
+export interface ConfirmTemplatePrompt {
+  readonly type: "confirm";
+  readonly flag: string;
+  readonly message: string;
+  /** Answer used when the wizard does not prompt (default: false) */
+  readonly default?: boolean;
+}
+
+/** An extra prompt of a custom template, asked after the built-in prompts */
+export type TemplatePrompt = TextTemplatePrompt | SelectTemplatePrompt | ConfirmTemplatePrompt;
+
+/** Optional `template.json` at the root of a templates directory */
+export interface TemplateManifest {
+  /**
+   * Files of the base template that are only generated when a condition holds,
+   * keyed by their path inside the base directory (e.g. `{ "Dockerfile": "DOCKER" }`)
+   */
+  readonly files?: Readonly<Record<string, string>>;
+  /** Variables of a custom template, in addition to the built-in ones */
+  readonly variables?: Readonly<Record<string, TemplateVariable>>;
+  /** Extra prompts of a custom template */
+  readonly prompts?: readonly TemplatePrompt[];
+}
+
+/** Options for rendering a single template */
+interface RenderOptions {
+  /** Escapes variable values before substitution (e.g. for JSON string literals) */
+  readonly escape?: (value: string) => string;
+}
+
+/** An open `{{#if}}` / `{{#unless}}` block while rendering */
+interface OpenBlock {
+  readonly tag: "if" | "unless";
+  isActive: boolean;
+  hasElse: boolean;
+}
+
+const VARIABLE_PATTERN = /\{\{([A-Z][A-Z0-9_]*)\}\}/g;
+
+// Block tags must be alone on their line, optionally inside a line comment so that
+// templates stay readable (and mostly valid) in their own language
+const BLOCK_TAG_PATTERN =
+  /^\s*(?:\/\/|#)?\s*\{\{(#if|#unless|else|\/if|\/unless)(?:\s+(!?[A-Z][A-Z0-9_]*))?\s*\}\}\s*$/;
+
+/** Name of the manifest file at the root of a templates directory */
+export const MANIFEST_FILE_NAME = "template.json";
+
+/**
+ * Evaluates a file condition: a flag name, optionally negated with `!`.
+ * @param {string} condition - The condition, e.g. `DOCKER` or `!DOCKER`
+ * @param {Readonly<Record<string, boolean>>} flags - Available flags
+ * @returns {boolean} Whether the condition holds
+ * @throws {Error} If the flag is unknown
+ */
+export function evaluateCondition(condition: string, flags: Readonly<Record<string, boolean>>): boolean {
+  const isNegated = condition.startsWith("!");
+  const flagName = isNegated ? condition.slice(1) : condition;
+  if (!Object.hasOwn(flags, flagName)) {
+    throw new Error(`Unknown template flag "${flagName}"`);
+  }
+  return isNegated ? !flags[flagName] : flags[flagName];
+}
+
+/**
+ * Renders a template: resolves conditional blocks and substitutes variables.
+ * Blocks are written on their own line as `{{#if FLAG}}`, `{{#unless FLAG}}`, `{{else}}`,
+ * `{{/if}}` and `{{/unless}}`, optionally prefixed by `//` or `#`; the tag lines themselves
+ * are removed from the output. Blocks can be nested.
+ * @param {string} content - The template content
+ * @param {TemplateContext} context - Variables and flags
+ * @param {RenderOptions} options - Rendering options
+ * @returns {string} The rendered content
+ * @throws {Error} If a variable or flag is unknown or blocks are unbalanced
+ */
+export function renderTemplate(content: string, context: TemplateContext, options: RenderOptions = {}): string {
+  const { escape = (value: string): string => value } = options;
+  const openBlocks: OpenBlock[] = [];
+  const outputLines: string[] = [];
+
+  const isActive = (): boolean => openBlocks.every((block) => block.isActive);
+
+  content.split("\n").forEach((line, index) => {
+    const match = BLOCK_TAG_PATTERN.exec(line);
+    if (!match) {
+      if (isActive()) {
+        outputLines.push(
+          line.replace(VARIABLE_PATTERN, (_placeholder, name: string) => {
+            if (!Object.hasOwn(context.variables, name)) {
+              throw new Error(`Unknown template variable "${name}" on line ${index + 1}`);
+            }
+            return escape(context.variables[name]);
+          })
+        );
+      }
+      return;
+    }
+
+    const [, tag, condition] = match;
+    const lineNumber = index + 1;
+
+    if (tag === "#if" || tag === "#unless") {
+      if (!condition) {
+        throw new Error(`Missing flag in {{${tag}}} on line ${lineNumber}`);
+      }
+      const holds = evaluateCondition(condition, context.flags);
+      openBlocks.push({
+        tag: tag === "#if" ? "if" : "unless",
+        isActive: tag === "#if" ? holds : !holds,
+        hasElse: false,
+      });
+      return;
+    }
+
+    const currentBlock = openBlocks.at(-1);
+    if (tag === "else") {
+      if (!currentBlock || currentBlock.hasElse) {
+        throw new Error(`Unexpected {{else}} on line ${lineNumber}`);
+      }
+      currentBlock.isActive = !currentBlock.isActive;
+      currentBlock.hasElse = true;
+      return;
+    }
+
+    if (!currentBlock || `/${currentBlock.tag}` !== tag) {
+      throw new Error(`Unexpected {{${tag}}} on line ${lineNumber}`);
+    }
+    openBlocks.pop();
+  });
+
+  if (openBlocks.length > 0) {
+    throw new Error(`Unclosed {{#${openBlocks.at(-1)?.tag}}} block`);
+  }
+
+  return outputLines.join("\n");
+}
+
+/**
+ * Maps a template file path to the path of the generated file.
+ * npm strips `.gitignore` files and treats nested `package.json` files specially when
+ * publishing, so templates store them as `gitignore` and `*.template.json`.
+ * @param {string} templatePath - Path inside the template directory, using forward slashes
+ * @returns {string} The path of the generated file
+ */
+export function getOutputPath(templatePath: string): string {
+  const directory = path.posix.dirname(templatePath);
+  const fileName = path.posix
+    .basename(templatePath)
+    .replace(/^gitignore$/, ".gitignore")
+    .replace(/\.template\.json$/, ".json");
+  return directory === "." ? fileName : `${directory}/${fileName}`;
+}
+
+/**
+ * Lists all files inside a directory, recursively.
+ * @param {string} directory - The directory to walk
+ * @param {string} prefix - Relative path of `directory` from the walk root
+ * @returns {Promise<string[]>} Relative file paths using forward slashes, sorted
+ */
+async function listFiles(directory: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const nestedFiles = await Promise.all(
+    entries.map(async (entry) => {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      return entry.isDirectory() ? listFiles(path.join(directory, entry.name), relativePath) : [relativePath];
+    })
+  );
+  return nestedFiles.flat().sort();
+}
+
+/**
+ * Reads the manifest of a templates directory.
+ * @param {string} templatesDirectory - Path to the templates directory
+ * @returns {Promise<TemplateManifest>} The manifest, or an empty manifest if there is none
+ * @throws {Error} If the manifest is not valid JSON
+ */
+export async function readTemplateManifest(templatesDirectory: string): Promise<TemplateManifest> {
+  const manifestPath = path.join(templatesDirectory, MANIFEST_FILE_NAME);
+  if (!fs.existsSync(manifestPath)) {
+    return {};
+  }
+  return JSON.parse(await fs.readFile(manifestPath, "utf-8")) as TemplateManifest;
+}
+
+/**
+ * Returns the values of the variables and flags declared by a manifest when nothing is prompted.
+ * @param {TemplateManifest} manifest - The manifest of a custom template
+ * @returns {TemplateContext} The declared variables with their defaults, and one flag per confirm prompt
+ */
+export function getTemplateDefaults(manifest: TemplateManifest): TemplateContext {
+  return {
+    variables: Object.fromEntries(
+      Object.entries(manifest.variables ?? {}).map(([name, variable]) => [name, variable.default])
+    ),
+    flags: Object.fromEntries(
+      (manifest.prompts ?? []).flatMap((prompt) => (prompt.type === "confirm" ? [[prompt.flag, prompt.default ?? false]] : []))
+    ),
+  };
+}
+
+/**
+ * Renders a single template file.
+ * JSON files get their variable values escaped so they remain valid JSON.
+ * @param {string} templatePath - Absolute path to the template file
+ * @param {string} relativePath - Path of the generated file relative to the project root
+ * @param {TemplateContext} context - Variables and flags
+ * @returns {Promise<ProjectFile>} The rendered file
+ * @throws {Error} If the template cannot be read or rendered
+ */
+export async function renderTemplateFile(
+  templatePath: string,
+  relativePath: string,
+  context: TemplateContext
+): Promise<ProjectFile> {
+  const content = await fs.readFile(templatePath, "utf-8");
+  const escape = relativePath.endsWith(".json")
+    ? (value: string): string => JSON.stringify(value).slice(1, -1)
+    : undefined;
+
+  try {
+    return { relativePath, content: renderTemplate(content, context, { escape }) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to render ${templatePath}: ${message}`);
+  }
+}
+
+/**
+ * Renders the path of a generated file from its template path.
+ * Variables come from custom templates and prompts, so the result is checked to stay inside the project.
+ * @param {string} templatePath - Path inside the template directory, using forward slashes
+ * @param {TemplateContext} context - Variables and flags
+ * @returns {string} The normalized path of the generated file, relative to the project root
+ * @throws {Error} If the rendered path is empty, absolute or leads outside the project
+ */
+function renderOutputPath(templatePath: string, context: TemplateContext): string {
+  const outputPath = path.posix.normalize(renderTemplate(getOutputPath(templatePath), context));
+  if (
+    outputPath === "." ||
+    path.posix.isAbsolute(outputPath) ||
+    path.win32.isAbsolute(outputPath) ||
+    outputPath.split(/[\\/]/).includes("..")
+  ) {
+    throw new Error(`Template file ${templatePath} renders to "${outputPath}", which is not a path inside the project`);
+  }
+  return outputPath;
+}
+
+/**
+ * Renders every file of a template directory, skipping files whose manifest condition does not hold.
+ * File and directory names can contain variables (e.g. `src/{{SERVER_ENTRY}}.ts`); manifest
+ * conditions are keyed by the unrendered path.
+ * @param {string} directory - The template directory (e.g. `templates/base`)
+ * @param {TemplateContext} context - Variables and flags
+ * @param {TemplateManifest} manifest - Manifest with the file conditions
+ * @returns {Promise<ProjectFile[]>} The rendered files, sorted by template path
+ * @throws {Error} If a template cannot be read or rendered, or a file would be written outside the project
+ */
+export async function renderTemplateDirectory(
+  directory: string,
+  context: TemplateContext,
+  manifest: TemplateManifest = {}
+): Promise<ProjectFile[]> {
+  const conditions = manifest.files ?? {};
+  const templatePaths = (await listFiles(directory)).filter((templatePath) => {
+    const condition = conditions[templatePath];
+    return condition === undefined || evaluateCondition(condition, context.flags);
+  });
+
+  return Promise.all(
+    templatePaths.map((templatePath) =>
+      renderTemplateFile(
+        path.join(directory, ...templatePath.split("/")),
+        renderOutputPath(templatePath, context),
+        context
+      )
+    )
+  );
+}
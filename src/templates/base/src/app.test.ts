@@ -0,0 +1,262 @@
+// {{#if TEST_RUNNER_NODE}}
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+// {{/if}}
+// {{#if TEST_RUNNER_JEST}}
+import { describe, expect, it } from "@jest/globals";
+// {{/if}}
+import express from "express";
+import request from "supertest";
+// {{#if TEST_RUNNER_VITEST}}
+import { describe, expect, it } from "vitest";
+// {{/if}}
+import { app } from "./app.js";
+// {{#if LAYOUT_LAYERED}}
+import { HttpError } from "./http-error.js";
+import { errorHandler } from "./middleware/error-handler.js";
+// {{else}}
+import { errorHandler } from "./error-handler.js";
+import { HttpError } from "./http-error.js";
+// {{/if}}
+
+describe("GET /health", () => {
+  it("responds with status ok", async () => {
+    const response = await request(app).get("/health");
+    const body = response.body as { status: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.equal(body.status, "ok");
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(body.status).toBe("ok");
+    // {{/if}}
+  });
+});
+
+describe("GET /health/live", () => {
+  it("responds with the uptime and version", async () => {
+    const response = await request(app).get("/health/live");
+    const body = response.body as { status: string; uptime: number; version: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.equal(body.status, "ok");
+    assert.equal(typeof body.uptime, "number");
+    assert.equal(body.version, "1.0.0");
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(body.status).toBe("ok");
+    expect(typeof body.uptime).toBe("number");
+    expect(body.version).toBe("1.0.0");
+    // {{/if}}
+  });
+});
+
+describe("GET /health/ready", () => {
+  it("responds with status ok and the result of each check", async () => {
+    const response = await request(app).get("/health/ready");
+    const body = response.body as { status: string; checks: Record<string, unknown> };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.equal(body.status, "ok");
+    assert.deepEqual(body.checks, {});
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ status: "ok", checks: {} });
+    // {{/if}}
+  });
+});
+
+describe("GET /", () => {
+  it("responds with a welcome message", async () => {
+    const response = await request(app).get("/");
+    const body = response.body as { message: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.equal(body.message, "Welcome to your Express + TypeScript API!");
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(body.message).toBe("Welcome to your Express + TypeScript API!");
+    // {{/if}}
+  });
+});
+
+describe("error handling", () => {
+  const failingApp = express();
+  failingApp.get("/teapot", () => {
+    throw new HttpError(418, "No coffee here");
+  });
+  failingApp.get("/crash", () => {
+    throw new Error("Database password is hunter2");
+  });
+  failingApp.use(errorHandler);
+
+  it("responds with a problem details 404 for unknown routes", async () => {
+    const response = await request(app).get("/missing");
+    const body = response.body as { title: string; status: number; instance: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 404);
+    assert.match(String(response.headers["content-type"]), /^application\/problem\+json/);
+    assert.equal(body.title, "Not Found");
+    assert.equal(body.status, 404);
+    assert.equal(body.instance, "/missing");
+    // {{else}}
+    expect(response.status).toBe(404);
+    expect(response.headers["content-type"]).toMatch(/^application\/problem\+json/);
+    expect(body).toMatchObject({ title: "Not Found", status: 404, instance: "/missing" });
+    // {{/if}}
+  });
+
+  it("uses the status and message of an HttpError", async () => {
+    const response = await request(failingApp).get("/teapot");
+    const body = response.body as { title: string; detail: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 418);
+    assert.equal(body.title, "I'm a Teapot");
+    assert.equal(body.detail, "No coffee here");
+    // {{else}}
+    expect(response.status).toBe(418);
+    expect(body).toMatchObject({ title: "I'm a Teapot", detail: "No coffee here" });
+    // {{/if}}
+  });
+
+  it("does not expose the message of unexpected errors", async () => {
+    const response = await request(failingApp).get("/crash");
+    const body = response.body as { title: string; detail?: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 500);
+    assert.equal(body.title, "Internal Server Error");
+    assert.equal(body.detail, undefined);
+    // {{else}}
+    expect(response.status).toBe(500);
+    expect(body.title).toBe("Internal Server Error");
+    expect(body.detail).toBeUndefined();
+    // {{/if}}
+  });
+});
+// {{#if OPENAPI}}
+
+describe("OpenAPI", () => {
+  it("serves a document describing the routes", async () => {
+    const response = await request(app).get("/openapi.json");
+    const body = response.body as { openapi: string; paths: Record<string, unknown> };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.equal(body.openapi, "3.1.0");
+    assert.ok(Object.hasOwn(body.paths, "/"));
+    assert.ok(Object.hasOwn(body.paths, "/health"));
+    assert.ok(Object.hasOwn(body.paths, "/health/ready"));
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(body.openapi).toBe("3.1.0");
+    expect(Object.keys(body.paths)).toEqual(expect.arrayContaining(["/", "/health", "/health/ready"]));
+    // {{/if}}
+  });
+
+  it("serves Swagger UI", async () => {
+    const response = await request(app).get("/docs/");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 200);
+    assert.match(response.text, /swagger-ui/);
+    // {{else}}
+    expect(response.status).toBe(200);
+    expect(response.text).toContain("swagger-ui");
+    // {{/if}}
+  });
+});
+// {{/if}}
+// {{#if LOGGING}}
+
+describe("X-Request-Id", () => {
+  it("propagates the incoming request id", async () => {
+    const response = await request(app).get("/health").set("X-Request-Id", "test-request-id");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.headers["x-request-id"], "test-request-id");
+    // {{else}}
+    expect(response.headers["x-request-id"]).toBe("test-request-id");
+    // {{/if}}
+  });
+
+  it("generates a request id when none is sent", async () => {
+    const response = await request(app).get("/health");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.match(String(response.headers["x-request-id"]), /^[0-9a-f-]{36}$/);
+    // {{else}}
+    expect(response.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    // {{/if}}
+  });
+});
+// {{/if}}
+// {{#if SECURITY_HELMET}}
+
+describe("security headers", () => {
+  it("sets the helmet headers", async () => {
+    const response = await request(app).get("/");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.headers["x-content-type-options"], "nosniff");
+    // {{else}}
+    expect(response.headers["x-content-type-options"]).toBe("nosniff");
+    // {{/if}}
+  });
+});
+// {{/if}}
+// {{#if SECURITY_CORS}}
+
+describe("CORS", () => {
+  it("does not allow origins missing from CORS_ORIGINS", async () => {
+    const response = await request(app).get("/").set("Origin", "https://unknown.example.com");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.headers["access-control-allow-origin"], undefined);
+    // {{else}}
+    expect(response.headers["access-control-allow-origin"]).toBeUndefined();
+    // {{/if}}
+  });
+});
+// {{/if}}
+// {{#if SECURITY_RATE_LIMIT}}
+
+describe("rate limiting", () => {
+  it("reports the limit in the RateLimit-Policy header", async () => {
+    const response = await request(app).get("/");
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.ok(response.headers["ratelimit-policy"]);
+    // {{else}}
+    expect(response.headers["ratelimit-policy"]).toBeDefined();
+    // {{/if}}
+  });
+});
+// {{/if}}
+// {{#if SECURITY_BODY_LIMIT}}
+
+describe("body size limit", () => {
+  it("rejects JSON bodies larger than BODY_LIMIT", async () => {
+    const response = await request(app)
+      .post("/")
+      .set("Content-Type", "application/json")
+      .send(JSON.stringify({ data: "x".repeat(1024 * 1024) }));
+
+    const body = response.body as { detail: string };
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 413);
+    assert.equal(body.detail, "request entity too large");
+    // {{else}}
+    expect(response.status).toBe(413);
+    expect(body.detail).toBe("request entity too large");
+    // {{/if}}
+  });
+});
+// {{/if}}
@@ -0,0 +1,163 @@
+// {{#if SECURITY_CORS}}
+import cors from "cors";
+// {{/if}}
+// {{#if LAYOUT_LAYERED}}
+import express from "express";
+// {{else}}
+// {{#if OPENAPI}}
+import express from "express";
+// {{else}}
+import express, { type Request, type Response } from "express";
+// {{/if}}
+// {{/if}}
+// {{#if SECURITY_RATE_LIMIT}}
+import { rateLimit } from "express-rate-limit";
+// {{/if}}
+// {{#if SECURITY_HELMET}}
+import helmet from "helmet";
+// {{/if}}
+// {{#if LAYOUT_MINIMAL}}
+// {{#if OPENAPI}}
+import { z } from "zod";
+// {{/if}}
+// {{/if}}
+import { config } from "./config.js";
+// {{#if LAYOUT_LAYERED}}
+import { errorHandler, notFoundHandler } from "./middleware/error-handler.js";
+// {{#if LOGGING}}
+import { requestLogger } from "./middleware/request-logger.js";
+// {{/if}}
+// {{#if OPENAPI}}
+import { openApiRouter } from "./openapi.js";
+// {{/if}}
+import { router } from "./routes/index.js";
+// {{else}}
+import { errorHandler, notFoundHandler } from "./error-handler.js";
+// {{#if OPENAPI}}
+import { getLiveness, getReadiness, livenessSchema, readinessSchema } from "./health.js";
+import { defineRoute, openApiRouter } from "./openapi.js";
+// {{else}}
+import { getLiveness, getReadiness } from "./health.js";
+// {{/if}}
+// {{#if LOGGING}}
+import { requestLogger } from "./request-logger.js";
+// {{/if}}
+// {{/if}}
+
+export const app = express();
+
+// Lets req.ip (used by logging and rate limiting) read X-Forwarded-For from trusted proxies only
+app.set("trust proxy", config.TRUST_PROXY);
+
+// {{#if LOGGING}}
+app.use(requestLogger);
+// {{/if}}
+// {{#if SECURITY_HELMET}}
+app.use(helmet());
+// {{/if}}
+// {{#if SECURITY_CORS}}
+app.use(cors({ origin: config.CORS_ORIGINS }));
+// {{/if}}
+// {{#if SECURITY_RATE_LIMIT}}
+app.use(
+  rateLimit({
+    windowMs: config.RATE_LIMIT_WINDOW_MS,
+    limit: config.RATE_LIMIT_MAX,
+    standardHeaders: "draft-8",
+    legacyHeaders: false,
+    // Keep health checks from load balancers and orchestrators out of the limit
+    skip: (request) => request.path === "/health" || request.path.startsWith("/health/"),
+  })
+);
+// {{/if}}
+// {{#if SECURITY_BODY_LIMIT}}
+app.use(express.json({ limit: config.BODY_LIMIT }));
+// {{else}}
+app.use(express.json());
+// {{/if}}
+
+// {{#if LAYOUT_LAYERED}}
+app.use(router);
+// {{else}}
+// {{#if OPENAPI}}
+defineRoute(app, {
+  method: "get",
+  path: "/health/live",
+  summary: "Liveness probe: the process is up",
+  response: livenessSchema,
+  handler: (_request, response) => {
+    response.json(getLiveness());
+  },
+});
+
+defineRoute(app, {
+  method: "get",
+  path: "/health/ready",
+  summary: "Readiness probe: answers 503 while a dependency check fails or the server is shutting down",
+  response: readinessSchema,
+  handler: async (_request, response) => {
+    const readiness = await getReadiness();
+    response.status(readiness.status === "ok" ? 200 : 503).json(readiness);
+  },
+});
+
+defineRoute(app, {
+  method: "get",
+  path: "/health",
+  summary: "Same as /health/live, for existing monitors",
+  response: livenessSchema,
+  handler: (_request, response) => {
+    response.json(getLiveness());
+  },
+});
+
+defineRoute(app, {
+  method: "get",
+  path: "/",
+  summary: "Welcome message",
+  response: z.object({ message: z.string() }),
+  handler: (_request, response) => {
+    response.json({ message: "Welcome to your Express + TypeScript API!" });
+  },
+});
+// {{else}}
+/**
+ * Liveness probe: answers as long as the process is up, whatever the state of its dependencies.
+ * `/health` is the same, for existing monitors.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {void}
+ */
+app.get(["/health/live", "/health"], (_request: Request, response: Response): void => {
+  response.json(getLiveness());
+});
+
+/**
+ * Readiness probe for load balancers: answers 503 while a dependency check fails or the server is shutting down.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {Promise<void>} Resolves once the response is sent
+ */
+app.get("/health/ready", async (_request: Request, response: Response): Promise<void> => {
+  const readiness = await getReadiness();
+  response.status(readiness.status === "ok" ? 200 : 503).json(readiness);
+});
+
+/**
+ * Root endpoint returning a welcome message.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {void}
+ */
+app.get("/", (_request: Request, response: Response): void => {
+  response.json({ message: "Welcome to your Express + TypeScript API!" });
+});
+// {{/if}}
+// {{/if}}
+// {{#if OPENAPI}}
+app.use(openApiRouter);
+// {{/if}}
+
+// Keep these last: unmatched requests get a 404, and every error a problem details response
+app.use(notFoundHandler);
+app.use(errorHandler);
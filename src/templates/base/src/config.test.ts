@@ -0,0 +1,56 @@
+// {{#if TEST_RUNNER_NODE}}
+import assert from "node:assert/strict";
+// {{/if}}
+import { readFileSync } from "node:fs";
+// {{#if MODULE_CJS}}
+import path from "node:path";
+// {{/if}}
+// {{#if TEST_RUNNER_NODE}}
+import { describe, it } from "node:test";
+// {{/if}}
+// {{#if TEST_RUNNER_VITEST}}
+import { describe, expect, it } from "vitest";
+// {{/if}}
+// {{#if TEST_RUNNER_JEST}}
+import { describe, expect, it } from "@jest/globals";
+// {{/if}}
+import { parseConfig } from "./config.js";
+import { renderEnvExample } from "./env.js";
+
+describe("parseConfig", () => {
+  it("applies defaults for unset variables", () => {
+    const config = parseConfig({});
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(config.PORT, {{PORT}});
+    assert.equal(config.NODE_ENV, "development");
+    // {{else}}
+    expect(config.PORT).toBe({{PORT}});
+    expect(config.NODE_ENV).toBe("development");
+    // {{/if}}
+  });
+
+  it("rejects invalid values", () => {
+    // {{#if TEST_RUNNER_NODE}}
+    assert.throws(() => parseConfig({ PORT: "not-a-port" }), /PORT/);
+    // {{else}}
+    expect(() => parseConfig({ PORT: "not-a-port" })).toThrow(/PORT/);
+    // {{/if}}
+  });
+});
+
+describe(".env.example", () => {
+  it("is up to date with the schema (run the env:example script to update it)", () => {
+    // {{#if MODULE_ESM}}
+    const envExample = readFileSync(new URL("../.env.example", import.meta.url), "utf-8");
+    // {{else}}
+    const envExample = readFileSync(path.join(__dirname, "../.env.example"), "utf-8");
+    // {{/if}}
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(envExample, renderEnvExample());
+    // {{else}}
+    expect(envExample).toBe(renderEnvExample());
+    // {{/if}}
+  });
+});
@@ -0,0 +1,35 @@
+import "dotenv/config";
+import { z } from "zod";
+import { envSchema } from "./env.js";
+
+/** Typed application configuration */
+export type Config = z.infer<typeof envSchema>;
+
+/**
+ * Parses and validates environment variables against the schema.
+ * @param {NodeJS.ProcessEnv} env - The environment variables to parse
+ * @returns {Config} The typed configuration, with defaults applied
+ * @throws {Error} If a variable is missing or invalid, listing every problem
+ */
+export function parseConfig(env: NodeJS.ProcessEnv): Config {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new Error(`Invalid environment variables:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Loads the configuration from `process.env`, exiting with a readable error when it is invalid.
+ * @returns {Config} The typed configuration
+ */
+function loadConfig(): Config {
+  try {
+    return parseConfig(process.env);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+export const config = loadConfig();
@@ -0,0 +1,23 @@
+import type { Request, Response } from "express";
+import { getLiveness, getReadiness, type Liveness, type Readiness } from "../health.js";
+
+/**
+ * Liveness probe: answers as long as the process is up, whatever the state of its dependencies.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {void}
+ */
+export function getLive(_request: Request, response: Response<Liveness>): void {
+  response.json(getLiveness());
+}
+
+/**
+ * Readiness probe for load balancers: answers 503 while a dependency check fails or the server is shutting down.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {Promise<void>} Resolves once the response is sent
+ */
+export async function getReady(_request: Request, response: Response<Readiness>): Promise<void> {
+  const readiness = await getReadiness();
+  response.status(readiness.status === "ok" ? 200 : 503).json(readiness);
+}
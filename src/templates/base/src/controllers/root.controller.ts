@@ -0,0 +1,25 @@
+import type { Request, Response } from "express";
+// {{#if OPENAPI}}
+import { z } from "zod";
+
+/** Body of the root endpoint */
+export const welcomeMessageSchema = z.object({ message: z.string() });
+
+export type WelcomeMessage = z.infer<typeof welcomeMessageSchema>;
+// {{else}}
+
+/** Body of the root endpoint */
+export interface WelcomeMessage {
+  readonly message: string;
+}
+// {{/if}}
+
+/**
+ * Root endpoint returning a welcome message.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {void}
+ */
+export function getWelcome(_request: Request, response: Response<WelcomeMessage>): void {
+  response.json({ message: "Welcome to your Express + TypeScript API!" });
+}
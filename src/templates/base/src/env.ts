@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/**
+ * Environment variables read by the application.
+ * Add new variables here, then run the `env:example` script to update `.env.example`.
+ */
+export const envSchema = z.object({
+  NODE_ENV: z.enum(["development", "production", "test"]).default("development").describe("Runtime environment"),
+  PORT: z.coerce.number().int().min(1).max(65535).default({{PORT}}).describe("Port the HTTP server listens on"),
+  TRUST_PROXY: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Number of reverse proxies in front of the server, used to read the client IP address"),
+  SHUTDOWN_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Milliseconds to keep serving after SIGTERM while /health/ready fails, so load balancers drain traffic"),
+  // {{#if LOGGING}}
+  LOG_LEVEL: z
+    .enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"])
+    .default("info")
+    .describe("Minimum level of the messages that are logged"),
+  // {{/if}}
+  // {{#if SECURITY_CORS}}
+  CORS_ORIGINS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter(Boolean)
+    )
+    .describe("Comma-separated origins allowed to make cross-origin requests (empty allows none)"),
+  // {{/if}}
+  // {{#if SECURITY_RATE_LIMIT}}
+  RATE_LIMIT_WINDOW_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(900000)
+    .describe("Length of the rate limiting window in milliseconds"),
+  RATE_LIMIT_MAX: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(100)
+    .describe("Maximum number of requests per IP address in each window"),
+  // {{/if}}
+  // {{#if SECURITY_BODY_LIMIT}}
+  BODY_LIMIT: z
+    .string()
+    .regex(/^\d+(b|kb|mb)$/i, "Expected a size such as 100kb or 1mb")
+    .default("100kb")
+    .describe("Maximum size of JSON request bodies (e.g. 100kb, 1mb)"),
+  // {{/if}}
+  // {{#if FEATURE_ENV}}
+{{FEATURE_ENV_SCHEMA}}
+  // {{/if}}
+});
+
+/**
+ * Renders the contents of `.env.example` from the schema: one commented entry per variable,
+ * set to its default value (or left empty when the variable is required).
+ * @returns {string} The `.env.example` file contents
+ */
+export function renderEnvExample(): string {
+  const { properties = {} } = z.toJSONSchema(envSchema, { io: "input" });
+
+  const entries = Object.entries(properties).map(([name, property]) => {
+    if (typeof property === "boolean") {
+      return `${name}=`;
+    }
+    const allowedValues = property.enum ? ` (one of: ${property.enum.join(", ")})` : "";
+    const { default: defaultValue } = property;
+    const value = ["string", "number", "boolean"].includes(typeof defaultValue) ? String(defaultValue) : "";
+    return `# ${property.description ?? name}${allowedValues}\n${name}=${value}`;
+  });
+
+  return `${entries.join("\n\n")}\n`;
+}
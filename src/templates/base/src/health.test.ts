@@ -0,0 +1,99 @@
+// {{#if TEST_RUNNER_NODE}}
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+// {{/if}}
+// {{#if TEST_RUNNER_VITEST}}
+import { describe, expect, it } from "vitest";
+// {{/if}}
+// {{#if TEST_RUNNER_JEST}}
+import { describe, expect, it } from "@jest/globals";
+// {{/if}}
+import { getReadiness, markShuttingDown, registerHealthCheck } from "./health.js";
+
+describe("getReadiness", () => {
+  it("is ok when every check passes", async () => {
+    const unregister = registerHealthCheck("database", () => Promise.resolve());
+    const readiness = await getReadiness();
+    unregister();
+    const { database } = readiness.checks;
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(readiness.status, "ok");
+    assert.equal(database?.status, "ok");
+    // {{else}}
+    expect(readiness.status).toBe("ok");
+    expect(database?.status).toBe("ok");
+    // {{/if}}
+  });
+
+  it("fails when a check throws", async () => {
+    const unregisterDatabase = registerHealthCheck("database", () => Promise.resolve());
+    const unregisterCache = registerHealthCheck("cache", () => Promise.reject(new Error("Connection refused")));
+    const readiness = await getReadiness();
+    unregisterDatabase();
+    unregisterCache();
+    const { database, cache } = readiness.checks;
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(readiness.status, "failing");
+    assert.equal(database?.status, "ok");
+    assert.equal(cache?.status, "failing");
+    // {{else}}
+    expect(readiness.status).toBe("failing");
+    expect(database?.status).toBe("ok");
+    expect(cache?.status).toBe("failing");
+    // {{/if}}
+  });
+
+  it("fails a check that does not answer in time and aborts it", async () => {
+    let checkSignal: AbortSignal | undefined;
+    const unregister = registerHealthCheck(
+      "payments",
+      (signal) => {
+        checkSignal = signal;
+        return new Promise((resolve) => {
+          signal.addEventListener("abort", () => {
+            resolve();
+          });
+        });
+      },
+      { timeoutMs: 10 }
+    );
+    const readiness = await getReadiness();
+    unregister();
+    const { payments } = readiness.checks;
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(payments?.status, "failing");
+    assert.equal(checkSignal?.aborted, true);
+    // {{else}}
+    expect(payments?.status).toBe("failing");
+    expect(checkSignal?.aborted).toBe(true);
+    // {{/if}}
+  });
+
+  // Keep last: the service cannot stop shutting down
+  it("reports the service as shutting down once the graceful shutdown begins", async () => {
+    markShuttingDown();
+    const readiness = await getReadiness();
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(readiness.status, "shutting-down");
+    // {{else}}
+    expect(readiness.status).toBe("shutting-down");
+    // {{/if}}
+  });
+});
+
+describe("registerHealthCheck", () => {
+  it("rejects a second check with the same name", () => {
+    const unregister = registerHealthCheck("database", () => Promise.resolve());
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.throws(() => registerHealthCheck("database", () => Promise.resolve()), /already registered/);
+    // {{else}}
+    expect(() => registerHealthCheck("database", () => Promise.resolve())).toThrow(/already registered/);
+    // {{/if}}
+    unregister();
+  });
+});
@@ -0,0 +1,173 @@
+import { readFileSync } from "node:fs";
+// {{#if MODULE_CJS}}
+import path from "node:path";
+// {{/if}}
+import { z } from "zod";
+import { logger } from "./logger.js";
+
+// {{#if OPENAPI}}
+/** Outcome of a dependency check */
+export const healthCheckResultSchema = z.object({
+  status: z.enum(["ok", "failing"]),
+  durationMs: z.number(),
+});
+
+/** Liveness of the service, as reported by /health/live: the process is up and answering requests */
+export const livenessSchema = z.object({
+  status: z.literal("ok"),
+  timestamp: z.iso.datetime(),
+  uptime: z.number().describe("Seconds since the process started"),
+  version: z.string(),
+});
+
+/** Readiness of the service, as reported by /health/ready: its dependencies answer and it is not shutting down */
+export const readinessSchema = livenessSchema.extend({
+  status: z.enum(["ok", "failing", "shutting-down"]),
+  checks: z.record(z.string(), healthCheckResultSchema),
+});
+
+export type HealthCheckResult = z.infer<typeof healthCheckResultSchema>;
+export type Liveness = z.infer<typeof livenessSchema>;
+export type Readiness = z.infer<typeof readinessSchema>;
+// {{else}}
+/** Outcome of a dependency check */
+export interface HealthCheckResult {
+  readonly status: "ok" | "failing";
+  readonly durationMs: number;
+}
+
+/** Liveness of the service, as reported by /health/live: the process is up and answering requests */
+export interface Liveness {
+  readonly status: "ok";
+  readonly timestamp: string;
+  /** Seconds since the process started */
+  readonly uptime: number;
+  readonly version: string;
+}
+
+/** Readiness of the service, as reported by /health/ready: its dependencies answer and it is not shutting down */
+export interface Readiness extends Omit<Liveness, "status"> {
+  readonly status: "ok" | "failing" | "shutting-down";
+  readonly checks: Record<string, HealthCheckResult>;
+}
+// {{/if}}
+
+/** Checks that a dependency (database, cache, downstream API...) answers; throws when it does not */
+export type HealthCheck = (signal: AbortSignal) => Promise<void>;
+
+/** Time a check may take before it counts as failing, unless registered with another timeout */
+const DEFAULT_CHECK_TIMEOUT_MS = 2000;
+
+/** Version of the application, from package.json */
+const { version } = z
+  .object({ version: z.string() })
+  // {{#if MODULE_ESM}}
+  .parse(JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf-8")));
+  // {{else}}
+  .parse(JSON.parse(readFileSync(path.join(__dirname, "../package.json"), "utf-8")));
+  // {{/if}}
+
+const healthChecks = new Map<string, { readonly check: HealthCheck; readonly timeoutMs: number }>();
+
+let isShuttingDown = false;
+
+/**
+ * Registers a check that must pass for the service to be ready, reported by /health/ready under its name.
+ * The check fails when it throws or takes longer than its timeout, which also aborts its signal.
+ * @example
+ * registerHealthCheck("database", async () => {
+ *   await pool.query("SELECT 1");
+ * });
+ * registerHealthCheck("payments-api", async (signal) => {
+ *   const response = await fetch("https://payments.example.com/health", { signal });
+ *   if (!response.ok) throw new Error(`payments-api answered ${response.status}`);
+ * }, { timeoutMs: 500 });
+ * @param {string} name - Name of the dependency in the readiness response
+ * @param {HealthCheck} check - The check, given a signal aborted when it times out
+ * @param {object} options - Check options
+ * @param {number} options.timeoutMs - Time the check may take in milliseconds (default: 2000)
+ * @returns {() => void} Removes the check
+ * @throws {Error} If a check with the same name is already registered
+ */
+export function registerHealthCheck(
+  name: string,
+  check: HealthCheck,
+  options: { timeoutMs?: number } = {}
+): () => void {
+  if (healthChecks.has(name)) {
+    throw new Error(`A health check named "${name}" is already registered`);
+  }
+  healthChecks.set(name, { check, timeoutMs: options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS });
+  return () => {
+    healthChecks.delete(name);
+  };
+}
+
+/**
+ * Makes /health/ready report the service as shutting down, so that load balancers stop sending it traffic.
+ * Called as soon as the graceful shutdown begins; it cannot be undone.
+ * @returns {void}
+ */
+export function markShuttingDown(): void {
+  isShuttingDown = true;
+}
+
+/**
+ * Runs a check, failing it when it throws or times out.
+ * @param {string} name - Name of the check, for the logs
+ * @param {HealthCheck} check - The check to run
+ * @param {number} timeoutMs - Time the check may take in milliseconds
+ * @returns {Promise<HealthCheckResult>} The outcome of the check
+ */
+async function runHealthCheck(name: string, check: HealthCheck, timeoutMs: number): Promise<HealthCheckResult> {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  let timeout: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timeout = setTimeout(() => {
+      // Fail first, so that a check settling when aborted does not count as passing
+      reject(new Error(`Timed out after ${timeoutMs} ms`));
+      controller.abort();
+    }, timeoutMs);
+  });
+  try {
+    await Promise.race([check(controller.signal), timedOut]);
+    return { status: "ok", durationMs: Math.round(performance.now() - startedAt) };
+  } catch (error) {
+    // Logged rather than returned: errors of database drivers and HTTP clients can contain credentials
+    logger.warn(`Health check "${name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    return { status: "failing", durationMs: Math.round(performance.now() - startedAt) };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Returns the liveness of the service. It does not depend on anything but the process itself,
+ * so that orchestrators do not restart the service when one of its dependencies is down.
+ * @returns {Liveness} The liveness status
+ */
+export function getLiveness(): Liveness {
+  return { status: "ok", timestamp: new Date().toISOString(), uptime: Math.floor(process.uptime()), version };
+}
+
+/**
+ * Returns the readiness of the service, running every registered check in parallel.
+ * @returns {Promise<Readiness>} The readiness; `ok` when every check passes and the service is not shutting down
+ */
+export async function getReadiness(): Promise<Readiness> {
+  const liveness = getLiveness();
+  if (isShuttingDown) {
+    return { ...liveness, status: "shutting-down", checks: {} };
+  }
+  const results = await Promise.all(
+    [...healthChecks].map(
+      async ([name, { check, timeoutMs }]) => [name, await runHealthCheck(name, check, timeoutMs)] as const
+    )
+  );
+  return {
+    ...liveness,
+    status: results.every(([, result]) => result.status === "ok") ? "ok" : "failing",
+    checks: Object.fromEntries(results),
+  };
+}
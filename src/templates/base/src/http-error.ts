@@ -0,0 +1,22 @@
+import { STATUS_CODES } from "node:http";
+
+/**
+ * Error carrying the HTTP status to respond with. Throw it (or pass it to `next`) from a
+ * route handler and the error handler turns it into a problem details response;
+ * its message is sent to the client as the `detail`.
+ * @example throw new HttpError(404, `User ${id} not found`);
+ */
+export class HttpError extends Error {
+  override readonly name = "HttpError";
+  readonly status: number;
+
+  /**
+   * @param {number} status - HTTP status code, between 400 and 599
+   * @param {string} message - Description of the problem, sent to the client
+   * @param {ErrorOptions} options - Standard error options, e.g. the `cause`
+   */
+  constructor(status: number, message = STATUS_CODES[status] ?? "Error", options?: ErrorOptions) {
+    super(message, options);
+    this.status = status;
+  }
+}
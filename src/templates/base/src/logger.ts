@@ -0,0 +1,18 @@
+// {{#if LOGGING}}
+import { pino } from "pino";
+import { config } from "./config.js";
+
+/**
+ * Application logger. Writes JSON lines to stdout; `npm run dev` pipes them through pino-pretty.
+ * Logging is silenced while running tests.
+ */
+export const logger = pino({
+  level: config.NODE_ENV === "test" ? "silent" : config.LOG_LEVEL,
+});
+// {{else}}
+/**
+ * Application logger. Swap this for a structured logger (e.g. pino) when you need one;
+ * the rest of the code only relies on `info`, `warn` and `error`.
+ */
+export const logger = console;
+// {{/if}}
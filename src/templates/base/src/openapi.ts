@@ -0,0 +1,130 @@
+import { readFileSync } from "node:fs";
+// {{#if MODULE_CJS}}
+import path from "node:path";
+// {{/if}}
+import { type IRouter, type Request, type Response, Router } from "express";
+import swaggerUi from "swagger-ui-express";
+import { z } from "zod";
+
+/** HTTP methods that routes can be defined for */
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/** A route of the API together with its documentation */
+export interface RouteDefinition<TResponse extends z.ZodType = z.ZodType> {
+  readonly method: HttpMethod;
+  /** Express path; parameters such as `:id` are documented as `{id}` */
+  readonly path: string;
+  readonly summary: string;
+  readonly tags?: readonly string[];
+  /** Schema of the request body, for the documentation; validate the body in the handler */
+  readonly body?: z.ZodType;
+  /** Status code of the successful response (default: 200) */
+  readonly status?: number;
+  /** Schema of the successful response body, which also types the handler's `response.json` */
+  readonly response: TResponse;
+  handler(request: Request, response: Response<z.output<TResponse>>): void | Promise<void>;
+}
+
+/** OpenAPI 3.1 document describing the API */
+export interface OpenApiDocument {
+  readonly openapi: "3.1.0";
+  readonly info: { readonly title: string; readonly version: string; readonly description: string };
+  readonly paths: Record<string, Record<string, unknown>>;
+}
+
+/** Body of error responses, see the error handler */
+const problemDetailsSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number(),
+  detail: z.string().optional(),
+  instance: z.string(),
+});
+
+/** Fields of package.json shown in the `info` section of the document */
+const packageJson = z
+  .object({ name: z.string(), version: z.string(), description: z.string().default("") })
+  // {{#if MODULE_ESM}}
+  .parse(JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf-8")));
+  // {{else}}
+  .parse(JSON.parse(readFileSync(path.join(__dirname, "../package.json"), "utf-8")));
+  // {{/if}}
+
+const PATH_PARAMETER_PATTERN = /:(\w+)/g;
+
+const routeDefinitions: RouteDefinition[] = [];
+
+/**
+ * Registers a route on a router or app and adds it to the OpenAPI document,
+ * so that the documentation cannot drift from the routes that are actually served.
+ * @param {IRouter} router - The router or app to register the route on
+ * @param {RouteDefinition} definition - The route, its documentation and its handler
+ * @returns {void}
+ */
+export function defineRoute<TResponse extends z.ZodType>(
+  router: IRouter,
+  definition: RouteDefinition<TResponse>
+): void {
+  routeDefinitions.push(definition);
+  router[definition.method](definition.path, (request: Request, response: Response<z.output<TResponse>>) =>
+    definition.handler(request, response)
+  );
+}
+
+/**
+ * Builds the OpenAPI document from every route registered with `defineRoute`.
+ * @returns {OpenApiDocument} The OpenAPI 3.1 document
+ */
+export function createOpenApiDocument(): OpenApiDocument {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routeDefinitions) {
+    const path = route.path.replace(PATH_PARAMETER_PATTERN, "{$1}");
+    paths[path] = {
+      ...paths[path],
+      [route.method]: {
+        summary: route.summary,
+        tags: route.tags,
+        parameters: [...route.path.matchAll(PATH_PARAMETER_PATTERN)].map(([, name]) => ({
+          name,
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        })),
+        ...(route.body && {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: z.toJSONSchema(route.body, { io: "input" }) } },
+          },
+        }),
+        responses: {
+          // 204 No Content responses have no body to describe
+          [route.status ?? 200]: {
+            description: "Successful response",
+            ...(route.status !== 204 && {
+              content: { "application/json": { schema: z.toJSONSchema(route.response, { io: "output" }) } },
+            }),
+          },
+          default: {
+            description: "Error",
+            content: { "application/problem+json": { schema: z.toJSONSchema(problemDetailsSchema) } },
+          },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: packageJson.name, version: packageJson.version, description: packageJson.description },
+    paths,
+  };
+}
+
+/** Serves the OpenAPI document at `/openapi.json` and Swagger UI at `/docs` */
+export const openApiRouter = Router();
+
+openApiRouter.get("/openapi.json", (_request: Request, response: Response): void => {
+  response.json(createOpenApiDocument());
+});
+
+openApiRouter.use("/docs", swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: "/openapi.json" } }));
@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { getLive, getReady } from "../controllers/health.controller.js";
+// {{#if OPENAPI}}
+import { livenessSchema, readinessSchema } from "../health.js";
+import { defineRoute } from "../openapi.js";
+// {{/if}}
+
+export const healthRouter = Router();
+
+// {{#if OPENAPI}}
+defineRoute(healthRouter, {
+  method: "get",
+  path: "/health/live",
+  summary: "Liveness probe: the process is up",
+  response: livenessSchema,
+  handler: getLive,
+});
+
+defineRoute(healthRouter, {
+  method: "get",
+  path: "/health/ready",
+  summary: "Readiness probe: answers 503 while a dependency check fails or the server is shutting down",
+  response: readinessSchema,
+  handler: getReady,
+});
+
+defineRoute(healthRouter, {
+  method: "get",
+  path: "/health",
+  summary: "Same as /health/live, for existing monitors",
+  response: livenessSchema,
+  handler: getLive,
+});
+// {{else}}
+healthRouter.get("/health/live", getLive);
+healthRouter.get("/health/ready", getReady);
+// Same as /health/live, for existing monitors
+healthRouter.get("/health", getLive);
+// {{/if}}
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { healthRouter } from "./health.routes.js";
+import { rootRouter } from "./root.routes.js";
+
+/**
+ * Combines the router of every resource. Routers declare full paths (e.g. `/health`);
+ * add a router per resource and register it here.
+ */
+export const router = Router();
+
+router.use(healthRouter);
+router.use(rootRouter);
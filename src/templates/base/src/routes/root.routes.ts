@@ -0,0 +1,21 @@
+import { Router } from "express";
+// {{#if OPENAPI}}
+import { getWelcome, welcomeMessageSchema } from "../controllers/root.controller.js";
+import { defineRoute } from "../openapi.js";
+// {{else}}
+import { getWelcome } from "../controllers/root.controller.js";
+// {{/if}}
+
+export const rootRouter = Router();
+
+// {{#if OPENAPI}}
+defineRoute(rootRouter, {
+  method: "get",
+  path: "/",
+  summary: "Welcome message",
+  response: welcomeMessageSchema,
+  handler: getWelcome,
+});
+// {{else}}
+rootRouter.get("/", getWelcome);
+// {{/if}}
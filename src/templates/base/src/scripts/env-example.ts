@@ -0,0 +1,12 @@
+import { writeFileSync } from "node:fs";
+// {{#if MODULE_CJS}}
+import path from "node:path";
+// {{/if}}
+import { renderEnvExample } from "../env.js";
+
+// {{#if MODULE_ESM}}
+writeFileSync(new URL("../../.env.example", import.meta.url), renderEnvExample());
+// {{else}}
+writeFileSync(path.join(__dirname, "../../.env.example"), renderEnvExample());
+// {{/if}}
+console.log("✅ .env.example updated");
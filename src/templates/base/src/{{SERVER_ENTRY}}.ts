@@ -0,0 +1,44 @@
+import type { Server } from "node:http";
+import { app } from "./app.js";
+import { config } from "./config.js";
+import { markShuttingDown } from "./health.js";
+import { logger } from "./logger.js";
+
+const server: Server = app.listen(config.PORT, () => {
+  logger.info(`🚀 Server running at http://localhost:${config.PORT}`);
+});
+
+server.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code === "EADDRINUSE") {
+    logger.error(`❌ Port ${config.PORT} is already in use. Try a different port with PORT=<number> npm run dev`);
+    process.exit(1);
+  }
+  throw error;
+});
+
+/**
+ * Gracefully shuts down the server when receiving termination signals.
+ * Readiness checks fail right away, and the server keeps serving for SHUTDOWN_DELAY_MS
+ * so that load balancers stop sending it requests before it stops accepting them.
+ * @param {NodeJS.Signals} signal - The termination signal received
+ */
+function gracefulShutdown(signal: NodeJS.Signals): void {
+  logger.info(`${signal} received. Shutting down gracefully...`);
+  markShuttingDown();
+
+  setTimeout(() => {
+    server.close(() => {
+      logger.info("Server closed.");
+      process.exit(0);
+    });
+
+    // Force close after 10 seconds
+    setTimeout(() => {
+      logger.error("Could not close connections in time, forcefully shutting down");
+      process.exit(1);
+    }, 10000);
+  }, config.SHUTDOWN_DELAY_MS);
+}
+
+process.on("SIGINT", gracefulShutdown);
+process.on("SIGTERM", gracefulShutdown);
@@ -0,0 +1,87 @@
+import { STATUS_CODES } from "node:http";
+import type { NextFunction, Request, Response } from "express";
+// {{#if LAYOUT_LAYERED}}
+import { config } from "../config.js";
+import { HttpError } from "../http-error.js";
+import { logger } from "../logger.js";
+// {{else}}
+import { config } from "./config.js";
+import { HttpError } from "./http-error.js";
+import { logger } from "./logger.js";
+// {{/if}}
+
+/** Problem details response body (RFC 9457) */
+export interface ProblemDetails {
+  readonly type: string;
+  readonly title: string;
+  readonly status: number;
+  readonly detail?: string;
+  readonly instance: string;
+  /** Only sent outside of production */
+  readonly stack?: string;
+}
+
+/**
+ * Returns the HTTP status of an error. Besides `HttpError`, errors raised by Express
+ * middleware (e.g. a malformed or too large JSON body) carry their status in `status`.
+ * @param {unknown} error - The error to inspect
+ * @returns {number} The status, or 500 for unexpected errors
+ */
+function getStatus(error: unknown): number {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  if (error instanceof Error && "status" in error && typeof error.status === "number") {
+    return error.status >= 400 && error.status < 600 ? error.status : 500;
+  }
+  return 500;
+}
+
+/**
+ * Catch-all for requests that no route handled. Register it after every route.
+ * @param {Request} request - Express request object
+ * @param {Response} _response - Express response object (unused)
+ * @param {NextFunction} next - Passes the 404 error to the error handler
+ * @returns {void}
+ */
+export function notFoundHandler(request: Request, _response: Response, next: NextFunction): void {
+  next(new HttpError(404, `Cannot ${request.method} ${request.path}`));
+}
+
+/**
+ * Turns every error into a problem details (`application/problem+json`) response.
+ * Messages of unexpected errors are not sent to clients, and stack traces are only
+ * included outside of production. Register it last.
+ * @param {unknown} error - The error thrown or passed to `next` by a handler
+ * @param {Request} request - Express request object
+ * @param {Response} response - Express response object
+ * @param {NextFunction} next - Falls back to Express's handler when the response has already started
+ * @returns {void}
+ */
+export function errorHandler(error: unknown, request: Request, response: Response, next: NextFunction): void {
+  if (response.headersSent) {
+    next(error);
+    return;
+  }
+
+  const status = getStatus(error);
+  if (status >= 500) {
+    // {{#if LOGGING}}
+    logger.error({ err: error, requestId: request.id }, "Unhandled error");
+    // {{else}}
+    logger.error(error);
+    // {{/if}}
+  }
+
+  const isExposed = error instanceof HttpError || status < 500;
+  const problem: ProblemDetails = {
+    type: "about:blank",
+    title: STATUS_CODES[status] ?? "Error",
+    status,
+    ...(isExposed && error instanceof Error && { detail: error.message }),
+    instance: request.originalUrl,
+    ...(config.NODE_ENV !== "production" && error instanceof Error && { stack: error.stack }),
+  };
+
+  response.status(status).type("application/problem+json").json(problem);
+}
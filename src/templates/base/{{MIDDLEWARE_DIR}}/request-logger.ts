@@ -0,0 +1,27 @@
+import { randomUUID } from "node:crypto";
+import { pinoHttp } from "pino-http";
+// {{#if LAYOUT_LAYERED}}
+import { logger } from "../logger.js";
+// {{else}}
+import { logger } from "./logger.js";
+// {{/if}}
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+// Incoming IDs are echoed back and written to the logs, so only accept reasonable values
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Logs every request and response. Each request gets an ID, taken from the incoming
+ * `X-Request-Id` header when it is valid or generated otherwise, which is included in
+ * every log line of the request (`request.log`) and sent back in the `X-Request-Id` response header.
+ */
+export const requestLogger = pinoHttp({
+  logger,
+  genReqId: (request, response) => {
+    const incomingId = request.headers[REQUEST_ID_HEADER];
+    const requestId = typeof incomingId === "string" && VALID_REQUEST_ID.test(incomingId) ? incomingId : randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    return requestId;
+  },
+});
@@ -0,0 +1,89 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../http-error.js";
+import {
+  {{RESOURCE_SINGULAR_CAMEL}}InputSchema,
+  {{RESOURCE_PLURAL_CAMEL}}Service,
+  type {{RESOURCE_SINGULAR_PASCAL}},
+  type {{RESOURCE_SINGULAR_PASCAL}}Input,
+} from "../services/{{RESOURCE_FILE}}.service.js";
+
+/**
+ * Validates the body of create and update requests.
+ * @param {unknown} body - The parsed JSON body
+ * @returns {{{RESOURCE_SINGULAR_PASCAL}}Input} The validated fields
+ * @throws {HttpError} 400 if the body is invalid
+ */
+function parse{{RESOURCE_SINGULAR_PASCAL}}Input(body: unknown): {{RESOURCE_SINGULAR_PASCAL}}Input {
+  const result = {{RESOURCE_SINGULAR_CAMEL}}InputSchema.safeParse(body);
+  if (!result.success) {
+    throw new HttpError(400, z.prettifyError(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Lists every {{RESOURCE_SINGULAR_WORDS}}.
+ * @param {Request} _request - Express request object (unused)
+ * @param {Response} response - Express response object
+ * @returns {void}
+ */
+export function list{{RESOURCE_PLURAL_PASCAL}}(_request: Request, response: Response<{{RESOURCE_SINGULAR_PASCAL}}[]>): void {
+  response.json({{RESOURCE_PLURAL_CAMEL}}Service.list());
+}
+
+/**
+ * Returns the {{RESOURCE_SINGULAR_WORDS}} with the id of the URL.
+ * @param {Request} request - Express request object
+ * @param {Response} response - Express response object
+ * @returns {void}
+ * @throws {HttpError} 404 if the {{RESOURCE_SINGULAR_WORDS}} does not exist
+ */
+export function get{{RESOURCE_SINGULAR_PASCAL}}(request: Request<{ id: string }>, response: Response<{{RESOURCE_SINGULAR_PASCAL}}>): void {
+  const found = {{RESOURCE_PLURAL_CAMEL}}Service.get(request.params.id);
+  if (!found) {
+    throw new HttpError(404, `No {{RESOURCE_SINGULAR_WORDS}} with id ${request.params.id}`);
+  }
+  response.json(found);
+}
+
+/**
+ * Creates a new {{RESOURCE_SINGULAR_WORDS}} from the request body.
+ * @param {Request} request - Express request object
+ * @param {Response} response - Express response object
+ * @returns {void}
+ * @throws {HttpError} 400 if the body is invalid
+ */
+export function create{{RESOURCE_SINGULAR_PASCAL}}(request: Request, response: Response<{{RESOURCE_SINGULAR_PASCAL}}>): void {
+  const created = {{RESOURCE_PLURAL_CAMEL}}Service.create(parse{{RESOURCE_SINGULAR_PASCAL}}Input(request.body));
+  response.status(201).location(`/{{RESOURCE_FILE}}/${created.id}`).json(created);
+}
+
+/**
+ * Replaces the {{RESOURCE_SINGULAR_WORDS}} with the id of the URL with the request body.
+ * @param {Request} request - Express request object
+ * @param {Response} response - Express response object
+ * @returns {void}
+ * @throws {HttpError} 400 if the body is invalid, 404 if the {{RESOURCE_SINGULAR_WORDS}} does not exist
+ */
+export function update{{RESOURCE_SINGULAR_PASCAL}}(request: Request<{ id: string }>, response: Response<{{RESOURCE_SINGULAR_PASCAL}}>): void {
+  const updated = {{RESOURCE_PLURAL_CAMEL}}Service.update(request.params.id, parse{{RESOURCE_SINGULAR_PASCAL}}Input(request.body));
+  if (!updated) {
+    throw new HttpError(404, `No {{RESOURCE_SINGULAR_WORDS}} with id ${request.params.id}`);
+  }
+  response.json(updated);
+}
+
+/**
+ * Deletes the {{RESOURCE_SINGULAR_WORDS}} with the id of the URL.
+ * @param {Request} request - Express request object
+ * @param {Response} response - Express response object
+ * @returns {void}
+ * @throws {HttpError} 404 if the {{RESOURCE_SINGULAR_WORDS}} does not exist
+ */
+export function delete{{RESOURCE_SINGULAR_PASCAL}}(request: Request<{ id: string }>, response: Response): void {
+  if (!{{RESOURCE_PLURAL_CAMEL}}Service.remove(request.params.id)) {
+    throw new HttpError(404, `No {{RESOURCE_SINGULAR_WORDS}} with id ${request.params.id}`);
+  }
+  response.status(204).end();
+}
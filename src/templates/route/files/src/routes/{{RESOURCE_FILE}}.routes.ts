@@ -0,0 +1,72 @@
+import { Router } from "express";
+import {
+  create{{RESOURCE_SINGULAR_PASCAL}},
+  delete{{RESOURCE_SINGULAR_PASCAL}},
+  get{{RESOURCE_SINGULAR_PASCAL}},
+  list{{RESOURCE_PLURAL_PASCAL}},
+  update{{RESOURCE_SINGULAR_PASCAL}},
+} from "../controllers/{{RESOURCE_FILE}}.controller.js";
+// {{#if OPENAPI}}
+import { z } from "zod";
+import { defineRoute } from "../openapi.js";
+import { {{RESOURCE_SINGULAR_CAMEL}}InputSchema, {{RESOURCE_SINGULAR_CAMEL}}Schema } from "../services/{{RESOURCE_FILE}}.service.js";
+// {{/if}}
+
+export const {{RESOURCE_PLURAL_CAMEL}}Router = Router();
+
+// {{#if OPENAPI}}
+defineRoute({{RESOURCE_PLURAL_CAMEL}}Router, {
+  method: "get",
+  path: "/{{RESOURCE_FILE}}",
+  summary: "List {{RESOURCE_PLURAL_WORDS}}",
+  tags: ["{{RESOURCE_FILE}}"],
+  response: z.array({{RESOURCE_SINGULAR_CAMEL}}Schema),
+  handler: list{{RESOURCE_PLURAL_PASCAL}},
+});
+
+defineRoute({{RESOURCE_PLURAL_CAMEL}}Router, {
+  method: "post",
+  path: "/{{RESOURCE_FILE}}",
+  summary: "Create a new {{RESOURCE_SINGULAR_WORDS}}",
+  tags: ["{{RESOURCE_FILE}}"],
+  body: {{RESOURCE_SINGULAR_CAMEL}}InputSchema,
+  status: 201,
+  response: {{RESOURCE_SINGULAR_CAMEL}}Schema,
+  handler: create{{RESOURCE_SINGULAR_PASCAL}},
+});
+
+defineRoute({{RESOURCE_PLURAL_CAMEL}}Router, {
+  method: "get",
+  path: "/{{RESOURCE_FILE}}/:id",
+  summary: "Get {{RESOURCE_SINGULAR_WORDS}} by id",
+  tags: ["{{RESOURCE_FILE}}"],
+  response: {{RESOURCE_SINGULAR_CAMEL}}Schema,
+  handler: get{{RESOURCE_SINGULAR_PASCAL}},
+});
+
+defineRoute({{RESOURCE_PLURAL_CAMEL}}Router, {
+  method: "put",
+  path: "/{{RESOURCE_FILE}}/:id",
+  summary: "Replace {{RESOURCE_SINGULAR_WORDS}}",
+  tags: ["{{RESOURCE_FILE}}"],
+  body: {{RESOURCE_SINGULAR_CAMEL}}InputSchema,
+  response: {{RESOURCE_SINGULAR_CAMEL}}Schema,
+  handler: update{{RESOURCE_SINGULAR_PASCAL}},
+});
+
+defineRoute({{RESOURCE_PLURAL_CAMEL}}Router, {
+  method: "delete",
+  path: "/{{RESOURCE_FILE}}/:id",
+  summary: "Delete {{RESOURCE_SINGULAR_WORDS}}",
+  tags: ["{{RESOURCE_FILE}}"],
+  status: 204,
+  response: z.void(),
+  handler: delete{{RESOURCE_SINGULAR_PASCAL}},
+});
+// {{else}}
+{{RESOURCE_PLURAL_CAMEL}}Router.get("/{{RESOURCE_FILE}}", list{{RESOURCE_PLURAL_PASCAL}});
+{{RESOURCE_PLURAL_CAMEL}}Router.post("/{{RESOURCE_FILE}}", create{{RESOURCE_SINGULAR_PASCAL}});
+{{RESOURCE_PLURAL_CAMEL}}Router.get("/{{RESOURCE_FILE}}/:id", get{{RESOURCE_SINGULAR_PASCAL}});
+{{RESOURCE_PLURAL_CAMEL}}Router.put("/{{RESOURCE_FILE}}/:id", update{{RESOURCE_SINGULAR_PASCAL}});
+{{RESOURCE_PLURAL_CAMEL}}Router.delete("/{{RESOURCE_FILE}}/:id", delete{{RESOURCE_SINGULAR_PASCAL}});
+// {{/if}}
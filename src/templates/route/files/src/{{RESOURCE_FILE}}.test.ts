@@ -0,0 +1,66 @@
+// {{#if TEST_RUNNER_NODE}}
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+// {{/if}}
+// {{#if TEST_RUNNER_VITEST}}
+import { describe, expect, it } from "vitest";
+// {{/if}}
+// {{#if TEST_RUNNER_JEST}}
+import { describe, expect, it } from "@jest/globals";
+// {{/if}}
+import request from "supertest";
+import { app } from "./app.js";
+
+describe("/{{RESOURCE_FILE}}", () => {
+  it("creates, reads, updates and deletes a {{RESOURCE_SINGULAR_WORDS}}", async () => {
+    const created = await request(app).post("/{{RESOURCE_FILE}}").send({ name: "First" });
+    const { id } = created.body as { id: string };
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(created.status, 201);
+    assert.equal(created.headers["location"], `/{{RESOURCE_FILE}}/${id}`);
+    // {{else}}
+    expect(created.status).toBe(201);
+    expect(created.headers["location"]).toBe(`/{{RESOURCE_FILE}}/${id}`);
+    // {{/if}}
+
+    const listed = await request(app).get("/{{RESOURCE_FILE}}");
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(listed.status, 200);
+    assert.ok((listed.body as { id: string }[]).some((item) => item.id === id));
+    // {{else}}
+    expect(listed.status).toBe(200);
+    expect(listed.body).toContainEqual(expect.objectContaining({ id, name: "First" }));
+    // {{/if}}
+
+    const updated = await request(app).put(`/{{RESOURCE_FILE}}/${id}`).send({ name: "Renamed" });
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(updated.status, 200);
+    assert.equal((updated.body as { name: string }).name, "Renamed");
+    // {{else}}
+    expect(updated.status).toBe(200);
+    expect((updated.body as { name: string }).name).toBe("Renamed");
+    // {{/if}}
+
+    const deleted = await request(app).delete(`/{{RESOURCE_FILE}}/${id}`);
+    const missing = await request(app).get(`/{{RESOURCE_FILE}}/${id}`);
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(deleted.status, 204);
+    assert.equal(missing.status, 404);
+    // {{else}}
+    expect(deleted.status).toBe(204);
+    expect(missing.status).toBe(404);
+    // {{/if}}
+  });
+
+  it("rejects an invalid body with a problem details response", async () => {
+    const response = await request(app).post("/{{RESOURCE_FILE}}").send({ name: "" });
+
+    // {{#if TEST_RUNNER_NODE}}
+    assert.equal(response.status, 400);
+    assert.match(String(response.headers["content-type"]), /^application\/problem\+json/);
+    // {{else}}
+    expect(response.status).toBe(400);
+    expect(response.headers["content-type"]).toMatch(/^application\/problem\+json/);
+    // {{/if}}
+  });
+});
@@ -0,0 +1,77 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+
+/** Fields clients send to create or replace {{RESOURCE_PLURAL_WORDS}} */
+export const {{RESOURCE_SINGULAR_CAMEL}}InputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+/** {{RESOURCE_SINGULAR_PASCAL}} as returned by the API */
+export const {{RESOURCE_SINGULAR_CAMEL}}Schema = {{RESOURCE_SINGULAR_CAMEL}}InputSchema.extend({
+  id: z.uuid(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export type {{RESOURCE_SINGULAR_PASCAL}}Input = z.infer<typeof {{RESOURCE_SINGULAR_CAMEL}}InputSchema>;
+export type {{RESOURCE_SINGULAR_PASCAL}} = z.infer<typeof {{RESOURCE_SINGULAR_CAMEL}}Schema>;
+
+// In-memory store, reset on every restart: replace it with your database
+const store = new Map<string, {{RESOURCE_SINGULAR_PASCAL}}>();
+
+/** Stores {{RESOURCE_PLURAL_WORDS}}; the handlers only deal with HTTP */
+export const {{RESOURCE_PLURAL_CAMEL}}Service = {
+  /**
+   * Lists every {{RESOURCE_SINGULAR_WORDS}}.
+   * @returns {{{RESOURCE_SINGULAR_PASCAL}}[]} The {{RESOURCE_PLURAL_WORDS}}, oldest first
+   */
+  list(): {{RESOURCE_SINGULAR_PASCAL}}[] {
+    return [...store.values()];
+  },
+
+  /**
+   * Finds the {{RESOURCE_SINGULAR_WORDS}} with the given id.
+   * @param {string} id - The id of the {{RESOURCE_SINGULAR_WORDS}}
+   * @returns {{{RESOURCE_SINGULAR_PASCAL}} | undefined} The {{RESOURCE_SINGULAR_WORDS}}, or undefined if it does not exist
+   */
+  get(id: string): {{RESOURCE_SINGULAR_PASCAL}} | undefined {
+    return store.get(id);
+  },
+
+  /**
+   * Creates and stores a new {{RESOURCE_SINGULAR_WORDS}}.
+   * @param {{{RESOURCE_SINGULAR_PASCAL}}Input} input - The validated fields
+   * @returns {{{RESOURCE_SINGULAR_PASCAL}}} The created {{RESOURCE_SINGULAR_WORDS}}
+   */
+  create(input: {{RESOURCE_SINGULAR_PASCAL}}Input): {{RESOURCE_SINGULAR_PASCAL}} {
+    const now = new Date().toISOString();
+    const created = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+    store.set(created.id, created);
+    return created;
+  },
+
+  /**
+   * Replaces the fields of the {{RESOURCE_SINGULAR_WORDS}} with the given id.
+   * @param {string} id - The id of the {{RESOURCE_SINGULAR_WORDS}}
+   * @param {{{RESOURCE_SINGULAR_PASCAL}}Input} input - The validated fields
+   * @returns {{{RESOURCE_SINGULAR_PASCAL}} | undefined} The updated {{RESOURCE_SINGULAR_WORDS}}, or undefined if it does not exist
+   */
+  update(id: string, input: {{RESOURCE_SINGULAR_PASCAL}}Input): {{RESOURCE_SINGULAR_PASCAL}} | undefined {
+    const existing = store.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    store.set(id, updated);
+    return updated;
+  },
+
+  /**
+   * Deletes the {{RESOURCE_SINGULAR_WORDS}} with the given id.
+   * @param {string} id - The id of the {{RESOURCE_SINGULAR_WORDS}}
+   * @returns {boolean} True if the {{RESOURCE_SINGULAR_WORDS}} existed
+   */
+  remove(id: string): boolean {
+    return store.delete(id);
+  },
+};
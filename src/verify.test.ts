@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { VerificationError } from "./errors.js";
+import { getVerifyCommands, verifyProject } from "./verify.js";
+
+/**
+ * Builds the source of a server answering its health check with the given body.
+ * @param {object} options - How the server behaves
+ * @param {string} options.status - The `status` of the health check response
+ * @param {boolean} options.gracefulShutdown - Whether SIGTERM closes the server and exits with code 0
+ * @returns {string} The source of an ES module
+ */
+function serverSource(options: { status: string; gracefulShutdown: boolean }): string {
+  return [
+    'import http from "node:http";',
+    "const server = http.createServer((request, response) => {",
+    '  response.setHeader("Content-Type", "application/json");',
+    `  response.end(JSON.stringify({ status: ${JSON.stringify(options.status)} }));`,
+    "});",
+    "server.listen(Number(process.env.PORT), () => console.log(`listening on ${process.env.PORT}`));",
+    ...(options.gracefulShutdown
+      ? ['process.on("SIGTERM", () => server.close(() => process.exit(0)));']
+      : []),
+    "",
+  ].join("\n");
+}
+
+describe("getVerifyCommands", () => {
+  it("should run the type-check and build scripts with the package manager", () => {
+    expect(getVerifyCommands("pnpm")).toEqual([
+      ["pnpm", "run", "type-check"],
+      ["pnpm", "run", "build"],
+    ]);
+    expect(getVerifyCommands("yarn")).toEqual([
+      ["yarn", "type-check"],
+      ["yarn", "build"],
+    ]);
+  });
+});
+
+describe("verifyProject", () => {
+  let projectPath: string;
+
+  /**
+   * Writes a project whose scripts and server behave as given.
+   * @param {Record<string, string>} scripts - Scripts of its package.json
+   * @param {string} server - Source of its compiled server
+   * @returns {Promise<void>} Resolves when the project is written
+   */
+  async function writeProject(scripts: Record<string, string>, server: string): Promise<void> {
+    await fs.outputJson(path.join(projectPath, "package.json"), {
+      name: "verified-app",
+      type: "module",
+      main: "dist/index.js",
+      scripts,
+    });
+    await fs.outputFile(path.join(projectPath, "dist/index.js"), server);
+  }
+
+  const passingScripts = { "type-check": 'node -e ""', "build": 'node -e ""' };
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), "verify-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it("should pass when the server answers its health check and shuts down gracefully", async () => {
+    await writeProject(passingScripts, serverSource({ status: "ok", gracefulShutdown: true }));
+
+    await expect(verifyProject(projectPath, "npm")).resolves.toBeUndefined();
+  });
+
+  it("should report the output of a failing script", async () => {
+    await writeProject(
+      { ...passingScripts, build: "node -e \"console.error('src/app.ts(3,1): error TS2304'); process.exit(2)\"" },
+      serverSource({ status: "ok", gracefulShutdown: true })
+    );
+
+    const promise = verifyProject(projectPath, "npm");
+
+    await expect(promise).rejects.toThrow(VerificationError);
+    await expect(promise).rejects.toMatchObject({
+      message: "npm run build failed",
+      output: expect.stringContaining("src/app.ts(3,1): error TS2304"),
+    });
+  });
+
+  it("should reject a health check that is not ok", async () => {
+    await writeProject(passingScripts, serverSource({ status: "degraded", gracefulShutdown: true }));
+
+    await expect(verifyProject(projectPath, "npm")).rejects.toMatchObject({
+      message: 'GET /health answered 200 with {"status":"degraded"} instead of 200 with status "ok"',
+      output: expect.stringMatching(/^listening on \d+/),
+    });
+  });
+
+  it("should reject a server that does not shut down gracefully", async () => {
+    await writeProject(passingScripts, serverSource({ status: "ok", gracefulShutdown: false }));
+
+    await expect(verifyProject(projectPath, "npm")).rejects.toThrow(
+      "The server was killed by SIGTERM after SIGTERM instead of shutting down gracefully"
+    );
+  });
+
+  it("should report a server that exits before answering", async () => {
+    await writeProject(passingScripts, 'console.error("Invalid environment variables"); process.exit(1);\n');
+
+    await expect(verifyProject(projectPath, "npm")).rejects.toMatchObject({
+      message: "The server exited before answering GET /health",
+      output: "Invalid environment variables",
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { execa } from "execa";
+import fs from "fs-extra";
+import net from "net";
+import path from "path";
+import { setTimeout as delay } from "timers/promises";
+import { VerificationError } from "./errors.js";
+import { getScriptCommand, type Command, type PackageManager } from "./package-managers.js";
+
+/** Scripts of the generated package.json run before booting the server, in order */
+export const VERIFY_SCRIPTS: readonly string[] = ["type-check", "build"];
+
+/** How long the server may take to answer its health check after starting */
+const BOOT_TIMEOUT_MS = 15_000;
+
+/** How long the server may take to exit after SIGTERM; its graceful shutdown gives up after 10 seconds */
+const SHUTDOWN_TIMEOUT_MS = 15_000;
+
+/** Pause between two health check attempts while the server boots */
+const PROBE_INTERVAL_MS = 200;
+
+/**
+ * Builds the commands that verify a project, as listed in dry runs.
+ * @param {PackageManager} packageManager - Package manager the project is installed with
+ * @returns {Command[]} The script commands; booting the server follows them
+ */
+export function getVerifyCommands(packageManager: PackageManager): Command[] {
+  return VERIFY_SCRIPTS.map((script) => getScriptCommand(packageManager, script));
+}
+
+/**
+ * Returns what a failed command printed, stdout and stderr interleaved.
+ * @param {unknown} error - The error thrown by execa
+ * @returns {string} The output, or an empty string if there is none
+ */
+function getCommandOutput(error: unknown): string {
+  return error instanceof Error && "all" in error && typeof error.all === "string" ? error.all : "";
+}
+
+/**
+ * Finds a TCP port that nothing listens on, to boot the server without clashing with another one.
+ * @returns {Promise<number>} The free port
+ * @throws {Error} If no port can be reserved
+ */
+async function findFreePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+/**
+ * Requests the health check of the server once.
+ * @param {number} port - Port the server listens on
+ * @returns {Promise<Response | undefined>} The response, or undefined if the server is not listening yet
+ */
+async function probeHealth(port: number): Promise<Response | undefined> {
+  try {
+    return await fetch(`http://127.0.0.1:${port}/health`, { signal: AbortSignal.timeout(PROBE_INTERVAL_MS * 5) });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Boots the compiled server on a free port, checks that `/health` answers 200 with `status: "ok"`,
+ * and stops it with SIGTERM, which must make it exit with code 0 through its graceful shutdown.
+ * @param {string} projectPath - The built project
+ * @param {AbortSignal} signal - Stops the server when aborted
+ * @returns {Promise<void>} Resolves when the server booted, answered and shut down
+ * @throws {VerificationError} If the server does not start, answers anything else, or does not shut down gracefully
+ */
+async function bootServer(projectPath: string, signal?: AbortSignal): Promise<void> {
+  const packageJson = (await fs.readJson(path.join(projectPath, "package.json"))) as { main?: unknown };
+  if (typeof packageJson.main !== "string") {
+    throw new VerificationError('package.json has no "main" entry to start the server from', "");
+  }
+  const port = await findFreePort();
+  const server = execa("node", [packageJson.main], {
+    cwd: projectPath,
+    env: { NODE_ENV: "production", PORT: String(port) },
+    all: true,
+    reject: false,
+    ...(signal && { cancelSignal: signal }),
+  });
+  let hasExited = false;
+  const exited = server.then((result) => {
+    hasExited = true;
+    return result;
+  });
+
+  try {
+    const deadline = Date.now() + BOOT_TIMEOUT_MS;
+    let response: Response | undefined;
+    while (!response && !hasExited && Date.now() < deadline) {
+      response = await probeHealth(port);
+      if (!response) {
+        await delay(PROBE_INTERVAL_MS);
+      }
+    }
+    if (!response) {
+      const reason = hasExited ? "exited before answering" : `did not answer within ${BOOT_TIMEOUT_MS / 1000} seconds`;
+      server.kill("SIGKILL");
+      throw new VerificationError(`The server ${reason} GET /health`, (await exited).all ?? "");
+    }
+
+    const body = (await response.json().catch(() => undefined)) as { status?: unknown } | undefined;
+    if (response.status !== 200 || body?.status !== "ok") {
+      server.kill("SIGKILL");
+      throw new VerificationError(
+        `GET /health answered ${response.status} with ${JSON.stringify(body)} instead of 200 with status "ok"`,
+        (await exited).all ?? ""
+      );
+    }
+
+    server.kill("SIGTERM");
+    const result = await Promise.race([exited, delay(SHUTDOWN_TIMEOUT_MS, undefined, { ref: false })]);
+    if (!result) {
+      server.kill("SIGKILL");
+      throw new VerificationError(
+        `The server did not exit within ${SHUTDOWN_TIMEOUT_MS / 1000} seconds of SIGTERM`,
+        (await exited).all ?? ""
+      );
+    }
+    if (result.exitCode !== 0) {
+      const exit =
+        result.exitCode === undefined ? `was killed by ${result.signal}` : `exited with code ${result.exitCode}`;
+      throw new VerificationError(
+        `The server ${exit} after SIGTERM instead of shutting down gracefully`,
+        result.all ?? ""
+      );
+    }
+  } finally {
+    if (!hasExited) {
+      server.kill("SIGKILL");
+    }
+  }
+}
+
+/**
+ * Verifies that a generated project works: runs its type-check and build scripts, then boots the
+ * compiled server, probes its health check and shuts it down gracefully.
+ * Catches template regressions before the project is handed over.
+ * @param {string} projectPath - The project, with its dependencies installed
+ * @param {PackageManager} packageManager - Package manager the project is installed with
+ * @param {AbortSignal} signal - Stops the running command or server when aborted
+ * @returns {Promise<void>} Resolves when every check passed
+ * @throws {VerificationError} If a check fails, with the output of the failed command or server
+ */
+export async function verifyProject(
+  projectPath: string,
+  packageManager: PackageManager,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const [command, ...args] of getVerifyCommands(packageManager)) {
+    try {
+      await execa(command, args, { cwd: projectPath, all: true, ...(signal && { cancelSignal: signal }) });
+    } catch (error) {
+      throw new VerificationError(`${[command, ...args].join(" ")} failed`, getCommandOutput(error), { cause: error });
+    }
+  }
+  await bootServer(projectPath, signal);
+}